@@ -1,6 +1,5 @@
 import { Component, ViewChild, ElementRef, OnInit } from '@angular/core';
 import { ClarkeWrightProblem, CWWeights } from '../../../../dist';
-import { convertLength } from '@turf/helpers';
 
 import * as leaflet from 'leaflet';
 import 'leaflet-draw';
@@ -116,15 +115,15 @@ export class ClarkeWrightPage implements OnInit {
       });
 
     const maxFlightDistance = this.calculateFlightDistance();
-    const flightDistanceDegrees = convertLength(maxFlightDistance, 'kilometers', 'degrees');
 
     const problem = new ClarkeWrightProblem({
       depot: depot,
       customers: points,
-      maxDistance: flightDistanceDegrees,
+      maxDistance: maxFlightDistance,
+      units: 'kilometers',
     });
 
-    const solution = problem.solve(this.cwWeights, this.optimise);
+    const solution = problem.solve(this.cwWeights, { optimise: this.optimise });
 
     this.paths.clearLayers();
 
@@ -138,20 +137,14 @@ export class ClarkeWrightPage implements OnInit {
       'teal',
     ];
 
-    solution.forEach((route, routeIndex) => {
-      console.log(route);
-      const path = new leaflet.Polyline([
-          ...route.points.map(point => new leaflet.LatLng(point[1], point[0])),
-          new leaflet.LatLng(route.points[0][1], route.points[0][0]),
-        ], {
-          color: colors[routeIndex % colors.length],
-          weight: 3,
-          opacity: 0.5,
-        });
-
-      const distance = convertLength(route.distance, 'degrees', 'kilometers');
+    solution.routes.forEach((route, routeIndex) => {
+      const path = new leaflet.Polyline(route.path.map(point => new leaflet.LatLng(point[1], point[0])), {
+        color: colors[routeIndex % colors.length],
+        weight: 3,
+        opacity: 0.5,
+      });
 
-      (path as any).setText(`${Math.round(distance * 100) / 100}km`, {
+      (path as any).setText(`${Math.round(route.distance * 100) / 100}km`, {
         below: true,
         orientation: 'perpendicular',
       });
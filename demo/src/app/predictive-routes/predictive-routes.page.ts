@@ -126,7 +126,7 @@ export class PredictiveRoutesPage implements OnInit {
         latLngs.forEach(latLng => {
           if (latLng === prev) return;
           totalDistance += distance(latLng, prev, {
-            units: 'degrees',
+            units: 'kilometers',
           });
           prev = latLng;
         });
@@ -137,12 +137,12 @@ export class PredictiveRoutesPage implements OnInit {
         };
       });
 
-    const flightSpeed = convertLength(this.droneInfo.flightSpeed / 60 / 60, 'kilometers', 'degrees');
-    const maxFlightDistanceDegrees = convertLength(this.calculateFlightDistance(), 'kilometers', 'degrees');
+    const flightSpeed = this.droneInfo.flightSpeed / 60 / 60; // km/s
+    const maxFlightDistance = this.calculateFlightDistance();
 
-    const routes = new PredictiveSolver().solve(
+    const solution = new PredictiveSolver({ units: 'kilometers' }).solve(
       flightSpeed,
-      maxFlightDistanceDegrees,
+      maxFlightDistance,
       depot[0],
       depot[1],
       paths
@@ -150,8 +150,8 @@ export class PredictiveRoutesPage implements OnInit {
 
     this.paths.clearLayers();
 
-    routes.forEach((route, routeIndex) => {
-      const path = new leaflet.Polyline(route.map(point => new leaflet.LatLng(point[1], point[0]), {}));
+    solution.routes.forEach((route, routeIndex) => {
+      const path = new leaflet.Polyline(route.path.map(point => new leaflet.LatLng(point[1], point[0]), {}));
       path.setStyle({
         color: this.colors[routeIndex % this.colors.length],
         weight: 3,
@@ -159,7 +159,8 @@ export class PredictiveRoutesPage implements OnInit {
         dashArray: [5, 5],
       });
 
-      (path as any).setText(`Foo`, {
+      const etas = route.stops.map(stop => `#${stop.targetIndex + 1} ${Math.round(stop.time / 60)} min`).join(', ');
+      (path as any).setText(`${etas} (${route.distance.toFixed(1)} km, ${Math.round(route.duration / 60)} min)`, {
         below: true,
         orientation: 'perpendicular',
       });
@@ -174,7 +175,7 @@ export class PredictiveRoutesPage implements OnInit {
     });
 
     drawnPaths.forEach((path, pathIndex) => {
-      const speed = paths[pathIndex].speed;
+      const speed = convertLength(paths[pathIndex].speed, 'kilometers', 'degrees');
       this.animatePointAlongPath(path as any, speed, this.scenario.targetIcon, this.scenario.speedUp);
     });
   }
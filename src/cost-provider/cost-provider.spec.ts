@@ -0,0 +1,117 @@
+import { Polygon } from '@turf/helpers';
+import { ConstantWind } from '../wind/wind';
+import { EuclideanCostProvider, HaversineCostProvider, ManhattanCostProvider, MatrixCostProvider, ObstacleCostProvider, WindCostProvider } from './cost-provider';
+
+describe('HaversineCostProvider', () => {
+  it('measures great circle distances in the given units', () => {
+    expect(new HaversineCostProvider().getCost([0, 0], [0, 1])).toBeCloseTo(1);
+    expect(new HaversineCostProvider('kilometers').getCost([0, 0], [0, 1])).toBeCloseTo(111.2, 1);
+    expect(new HaversineCostProvider('meters').getCost([0, 0], [1, 0])).toBeCloseTo(111195, -1);
+  });
+});
+
+describe('EuclideanCostProvider', () => {
+  it('measures straight line distances, scaled into cost units', () => {
+    expect(new EuclideanCostProvider().getCost([0, 0], [3, 4])).toBe(5);
+    expect(new EuclideanCostProvider(2).getCost([0, 0], [3, 4])).toBe(10);
+  });
+});
+
+describe('ManhattanCostProvider', () => {
+  it('measures distances along the axes, scaled into cost units', () => {
+    expect(new ManhattanCostProvider().getCost([0, 0], [3, -4])).toBe(7);
+    expect(new ManhattanCostProvider(2).getCost([0, 0], [3, -4])).toBe(14);
+  });
+});
+
+describe('MatrixCostProvider', () => {
+  const matrix = {
+    locations: [[0, 0], [1, 0], [0, 1]] as Array<[number, number]>,
+    costs: [
+      [0, 5, 7],
+      [6, 0, 2],
+      [8, 3, 0],
+    ],
+  };
+
+  it('looks up asymmetric costs', () => {
+    const provider = new MatrixCostProvider(matrix);
+
+    expect(provider.getCost([0, 0], [1, 0])).toBe(5);
+    expect(provider.getCost([1, 0], [0, 0])).toBe(6);
+    expect(provider.getCost([0, 1], [1, 0])).toBe(3);
+  });
+
+  it('reads the matrix from JSON', () => {
+    const provider = MatrixCostProvider.fromJSON(JSON.stringify(matrix));
+
+    expect(provider.getCost([1, 0], [0, 1])).toBe(2);
+  });
+
+  it('costs nothing to stay in the same place', () => {
+    const provider = new MatrixCostProvider(matrix);
+
+    expect(provider.getCost([5, 5], [5, 5])).toBe(0);
+  });
+
+  it('throws for locations not in the matrix', () => {
+    const provider = new MatrixCostProvider(matrix);
+
+    expect(() => provider.getCost([0, 0], [2, 2])).toThrow('Location [2, 2] is not in the cost matrix');
+    expect(() => provider.getCost([3, 1], [0, 0])).toThrow('Location [3, 1] is not in the cost matrix');
+  });
+});
+
+const wall: Polygon = {
+  type: 'Polygon',
+  coordinates: [[[2, -1], [4, -1], [4, 1], [2, 1], [2, -1]]],
+};
+
+describe('WindCostProvider', () => {
+  const provider = new WindCostProvider(new ConstantWind(5, 0), 10, new EuclideanCostProvider());
+
+  it('costs the distance flown through the air', () => {
+    expect(provider.getCost([0, 0], [30, 0])).toBeCloseTo(20);
+    expect(provider.getCost([0, 0], [-10, 0])).toBeCloseTo(20);
+  });
+
+  it('can\'t fly into wind stronger than the vehicle', () => {
+    const stormy = new WindCostProvider(new ConstantWind(-20, 0), 10, new EuclideanCostProvider());
+
+    expect(stormy.getCost([0, 0], [1, 0])).toBe(Infinity);
+  });
+});
+
+describe('ObstacleCostProvider', () => {
+  it('travels around obstacles', () => {
+    const provider = new ObstacleCostProvider([wall], new EuclideanCostProvider());
+
+    expect(provider.getCost([0, 0], [6, 0])).toBeCloseTo(2 * Math.sqrt(5) + 2);
+    expect(provider.getPath([0, 0], [6, 0])).toHaveLength(4);
+    expect(provider.getCost([0, 0], [0, 6])).toBeCloseTo(6);
+    expect(provider.getPath([0, 0], [0, 6])).toEqual([[0, 0], [0, 6]]);
+  });
+
+  it('has no path when the cost is infinite', () => {
+    const provider = new ObstacleCostProvider([wall], new EuclideanCostProvider());
+
+    expect(provider.getCost([0, 0], [3, 0])).toBe(Infinity);
+    expect(provider.getPath([0, 0], [3, 0])).toBeUndefined();
+  });
+
+  it('finds costs between corners once and caches paths', () => {
+    const legs = new EuclideanCostProvider();
+    const getCost = jest.spyOn(legs, 'getCost');
+    const provider = new ObstacleCostProvider([wall], legs);
+
+    provider.getCost([0, 0], [6, 0]);
+    const calls = getCost.mock.calls.length;
+    provider.getPath([0, 0], [6, 0]);
+    provider.getCost([0, 0], [6, 0]);
+    expect(getCost.mock.calls.length).toBe(calls);
+
+    // only the ends of a new path are connected to the corners
+    provider.getCost([0, 0.5], [6, 0.5]);
+    expect(getCost.mock.calls.length - calls).toBeLessThanOrEqual(8);
+  });
+});
@@ -0,0 +1,231 @@
+import getDistance from '@turf/distance';
+import { Units } from '@turf/helpers';
+import { WindField, groundSpeed, trackBetween } from '../wind/wind';
+import { CornerCosts, Obstacle, VisibilityGraph } from '../obstacles/obstacles';
+
+/**
+ * Provides the cost of travelling between two locations.
+ * Costs may be asymmetric, i.e. the cost from a to b may differ
+ * from the cost from b to a
+ */
+export interface CostProvider {
+  /**
+   * Cost of travelling from one location to another
+   * @param from [lon, lat] (or [x, y] for planar providers)
+   * @param to [lon, lat] (or [x, y] for planar providers)
+   * @param time Time (in seconds from the start of planning) the travel starts, for costs that change over time
+   */
+  getCost(from: [number, number], to: [number, number], time?: number): number;
+
+  /**
+   * Positions travelled through between two locations, including both ends.
+   * Travel is in a straight line if not provided
+   * @param from [lon, lat]
+   * @param to [lon, lat]
+   * @param time Time (in seconds from the start of planning) the travel starts
+   * @returns The positions, or undefined if there is no way between the locations (infinite cost)
+   */
+  getPath?(from: [number, number], to: [number, number], time?: number): Array<[number, number]> | undefined;
+}
+
+/**
+ * Great circle distance using the haversine formula
+ */
+export class HaversineCostProvider implements CostProvider {
+  /**
+   * @param units Units of the returned distance
+   */
+  constructor(private units: Units = 'degrees') {}
+
+  getCost(from: [number, number], to: [number, number]): number {
+    return getDistance(from, to, { units: this.units });
+  }
+}
+
+/**
+ * Straight line distance on a plane. Suited to projected coordinates
+ */
+export class EuclideanCostProvider implements CostProvider {
+  /**
+   * @param scale Multiplier converting coordinate units into cost units
+   */
+  constructor(private scale = 1) {}
+
+  getCost(from: [number, number], to: [number, number]): number {
+    return Math.sqrt(Math.pow(to[0] - from[0], 2) + Math.pow(to[1] - from[1], 2)) * this.scale;
+  }
+}
+
+/**
+ * Manhattan (taxicab) distance on a plane. A rough estimate of travel
+ * along a road grid
+ */
+export class ManhattanCostProvider implements CostProvider {
+  /**
+   * @param scale Multiplier converting coordinate units into cost units
+   */
+  constructor(private scale = 1) {}
+
+  getCost(from: [number, number], to: [number, number]): number {
+    return (Math.abs(to[0] - from[0]) + Math.abs(to[1] - from[1])) * this.scale;
+  }
+}
+
+/**
+ * Precomputed cost matrix, e.g. road travel distances or times
+ */
+export interface CostMatrix {
+  /** Locations as [lon, lat], in the same order as the rows and columns of costs */
+  locations: Array<[number, number]>;
+
+  /** costs[i][j] is the cost of travelling from locations[i] to locations[j] */
+  costs: number[][];
+}
+
+/**
+ * Looks up costs in a precomputed (possibly asymmetric) cost matrix.
+ * Every location asked about must be in the matrix
+ */
+export class MatrixCostProvider implements CostProvider {
+  private indices: { [location: string]: number } = {}; // map of location key to matrix index
+  private costs: number[][];
+
+  constructor(matrix: CostMatrix) {
+    matrix.locations.forEach((location, index) => {
+      this.indices[locationKey(location)] = index;
+    });
+    this.costs = matrix.costs;
+  }
+
+  /**
+   * Creates a cost provider from a cost matrix in JSON form,
+   * e.g. the contents of a file
+   * @param json JSON string or parsed object with locations and costs
+   */
+  public static fromJSON(json: string | CostMatrix) {
+    return new MatrixCostProvider(typeof json === 'string' ? JSON.parse(json) : json);
+  }
+
+  /**
+   * Cost of travelling from one location to another
+   * @param from [lon, lat]
+   * @param to [lon, lat]
+   * @throws If either location is not in the matrix
+   */
+  getCost(from: [number, number], to: [number, number]): number {
+    if (from[0] === to[0] && from[1] === to[1]) {
+      return 0;
+    }
+
+    return this.costs[this.indexOf(from)][this.indexOf(to)];
+  }
+
+  /**
+   * Index of a location in the matrix
+   * @param location
+   * @throws If the location is not in the matrix
+   */
+  private indexOf(location: [number, number]) {
+    const index = this.indices[locationKey(location)];
+    if (typeof index === 'undefined') {
+      throw new Error(`Location [${location[0]}, ${location[1]}] is not in the cost matrix`);
+    }
+    return index;
+  }
+}
+
+/**
+ * Distance a vehicle travels through the air when flying between two
+ * locations in wind, which is what uses up its range. Flying into the wind
+ * costs more than flying with it, so costs are asymmetric
+ */
+export class WindCostProvider implements CostProvider {
+  /**
+   * @param wind Wind velocity in units per second
+   * @param airSpeed Vehicle speed through the air in units per second
+   * @param ground Provides the distance over the ground in units. Defaults to great circle distance in degrees
+   */
+  constructor(private wind: WindField, private airSpeed: number, private ground: CostProvider = new HaversineCostProvider()) {}
+
+  getCost(from: [number, number], to: [number, number], time?: number): number {
+    const distance = this.ground.getCost(from, to, time);
+    if (distance === 0) {
+      return 0;
+    }
+
+    // the air distance is the time taken at the ground speed, times the air speed
+    const speed = groundSpeed(this.airSpeed, this.wind.getWind(from, time), trackBetween(from, to));
+    return speed > 0 ? distance * this.airSpeed / speed : Infinity;
+  }
+}
+
+/**
+ * Travels around obstacles such as restricted airspace or lakes, taking the
+ * cheapest path that only turns at obstacle corners. Locations inside an
+ * obstacle cannot be reached (infinite cost).
+ * Costs between corners are found once for each start time (the savings
+ * solver never sets one), and paths are cached so each is only found once
+ */
+export class ObstacleCostProvider implements CostProvider {
+  private graph: VisibilityGraph;
+  private corners = new Map<number | undefined, CornerCosts>(); // costs between corners for each start time
+  private paths = new Map<string, { path: Array<[number, number]>, cost: number } | undefined>(); // paths found, by ends and start time
+
+  /**
+   * @param obstacles GeoJSON polygons that can't be travelled through
+   * @param legs Provides the cost of each straight leg of a path. Defaults to great circle distance in degrees
+   */
+  constructor(obstacles: Obstacle[], private legs: CostProvider = new HaversineCostProvider()) {
+    this.graph = new VisibilityGraph(obstacles);
+  }
+
+  getCost(from: [number, number], to: [number, number], time?: number): number {
+    const path = this.findPath(from, to, time);
+    return path ? path.cost : Infinity;
+  }
+
+  /**
+   * Positions travelled through between two locations, turning at obstacle
+   * corners
+   * @param from [lon, lat]
+   * @param to [lon, lat]
+   * @param time Time (in seconds from the start of planning) the travel starts
+   * @returns The positions, or undefined if there is no way around the obstacles
+   */
+  getPath(from: [number, number], to: [number, number], time?: number): Array<[number, number]> | undefined {
+    const path = this.findPath(from, to, time);
+    return path && path.path;
+  }
+
+  /**
+   * Finds (or looks up) the cheapest path between two locations
+   * @param from
+   * @param to
+   * @param time
+   */
+  private findPath(from: [number, number], to: [number, number], time?: number) {
+    const key = `${locationKey(from)};${locationKey(to)};${time}`;
+    if (this.paths.has(key)) {
+      return this.paths.get(key);
+    }
+
+    const legCost = (a: [number, number], b: [number, number]) => this.legs.getCost(a, b, time);
+    let corners = this.corners.get(time);
+    if (!corners) {
+      corners = this.graph.findCornerCosts(legCost);
+      this.corners.set(time, corners);
+    }
+
+    const path = this.graph.findPath(from, to, legCost, corners);
+    this.paths.set(key, path);
+    return path;
+  }
+}
+
+/**
+ * Key used to look up a location in a cost matrix
+ * @param location
+ */
+function locationKey(location: [number, number]) {
+  return `${location[0]},${location[1]}`;
+}
@@ -0,0 +1,23 @@
+import { LinearEnergyModel } from './energy';
+
+describe('LinearEnergyModel', () => {
+  it('uses one unit of energy per unit of distance by default', () => {
+    const model = new LinearEnergyModel();
+
+    expect(model.getEnergy(5, 10, 20)).toBe(5);
+  });
+
+  it('uses more energy carrying a payload', () => {
+    const model = new LinearEnergyModel({ perDistance: 2, perPayloadDistance: 0.5 });
+
+    expect(model.getEnergy(4, 0, 0)).toBe(8);
+    expect(model.getEnergy(4, 3, 0)).toBe(14);
+  });
+
+  it('uses energy while serving', () => {
+    const model = new LinearEnergyModel({ perDistance: 0, perServiceSecond: 3, perPayloadServiceSecond: 1 });
+
+    expect(model.getEnergy(10, 0, 2)).toBe(6);
+    expect(model.getEnergy(10, 2, 2)).toBe(10);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Works out how much energy (such as battery charge) a vehicle uses
+ */
+export interface EnergyModel {
+  /**
+   * Energy used travelling a leg and then serving whatever is at its end
+   * @param distance Distance of the leg in units
+   * @param payload Load carried on the leg, such as customer demand still to be delivered
+   * @param serviceDuration Time (in seconds) spent serving at the end of the leg, such as hovering
+   */
+  getEnergy(distance: number, payload: number, serviceDuration: number): number;
+}
+
+/**
+ * Options for a linear energy model
+ */
+export interface LinearEnergyModelOptions {
+  /** Energy used per unit of distance when travelling empty (default 1) */
+  perDistance?: number;
+
+  /** Extra energy used per unit of distance for each unit of payload carried (default 0) */
+  perPayloadDistance?: number;
+
+  /** Energy used per second of service, such as hovering (default 0) */
+  perServiceSecond?: number;
+
+  /** Extra energy used per second of service for each unit of payload carried (default 0) */
+  perPayloadServiceSecond?: number;
+}
+
+/**
+ * Energy use that grows linearly with distance, payload and service time.
+ * With the default options, the energy used is the distance travelled
+ */
+export class LinearEnergyModel implements EnergyModel {
+  private perDistance: number;
+  private perPayloadDistance: number;
+  private perServiceSecond: number;
+  private perPayloadServiceSecond: number;
+
+  constructor(options: LinearEnergyModelOptions = {}) {
+    this.perDistance = typeof options.perDistance === 'undefined' ? 1 : options.perDistance;
+    this.perPayloadDistance = options.perPayloadDistance || 0;
+    this.perServiceSecond = options.perServiceSecond || 0;
+    this.perPayloadServiceSecond = options.perPayloadServiceSecond || 0;
+  }
+
+  getEnergy(distance: number, payload: number, serviceDuration: number): number {
+    return distance * (this.perDistance + this.perPayloadDistance * payload)
+      + serviceDuration * (this.perServiceSecond + this.perPayloadServiceSecond * payload);
+  }
+}
\ No newline at end of file
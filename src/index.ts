@@ -1,3 +1,7 @@
+export * from './cost-provider/cost-provider';
+export * from './energy/energy';
+export * from './obstacles/obstacles';
 export * from './predictive-solver/predictive-solver';
 export * from './predictive-solver/target-interception';
-export * from './savings-solver/savings-solver';
\ No newline at end of file
+export * from './savings-solver/savings-solver';
+export * from './wind/wind';
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { Polygon } from '@turf/helpers';
+import { createRandom } from '../savings-solver/random';
+import { VisibilityGraph } from './obstacles';
+
+/**
+ * Creates a square polygon
+ * @param x Left edge
+ * @param y Bottom edge
+ * @param size
+ */
+function square(x: number, y: number, size: number): Polygon {
+  return {
+    type: 'Polygon',
+    coordinates: [[[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]]],
+  };
+}
+
+const euclidean = (from: [number, number], to: [number, number]) => Math.hypot(to[0] - from[0], to[1] - from[1]);
+
+describe('VisibilityGraph', () => {
+  it('travels straight when nothing is in the way', () => {
+    const graph = new VisibilityGraph([square(2, 2, 1)]);
+
+    expect(graph.findPath([0, 0], [4, 0], euclidean)).toEqual({ path: [[0, 0], [4, 0]], cost: 4 });
+  });
+
+  it('turns at the corners of an obstacle in the way', () => {
+    const graph = new VisibilityGraph([square(2, -1, 2)]);
+    const result = graph.findPath([0, 0], [6, 0], euclidean);
+
+    expect(result!.cost).toBeCloseTo(2 * Math.sqrt(5) + 2);
+    expect(result!.path).toHaveLength(4);
+    expect(result!.path[1][0]).toBe(2);
+    expect(result!.path[2][0]).toBe(4);
+  });
+
+  it('finds no path to a position inside an obstacle', () => {
+    const graph = new VisibilityGraph([square(2, -1, 2)]);
+
+    expect(graph.findPath([0, 0], [3, 0], euclidean)).toBeUndefined();
+  });
+
+  it('finds no path out of a hole enclosed by an obstacle', () => {
+    const donut: Polygon = {
+      type: 'Polygon',
+      coordinates: [
+        [[-5, -5], [5, -5], [5, 5], [-5, 5], [-5, -5]],
+        [[-1, -1], [1, -1], [1, 1], [-1, 1], [-1, -1]],
+      ],
+    };
+    const graph = new VisibilityGraph([donut]);
+    const corners = graph.findCornerCosts(euclidean);
+
+    expect(graph.findPath([0, 0], [10, 0], euclidean)).toBeUndefined();
+    expect(graph.findPath([0, 0], [10, 0], euclidean, corners)).toBeUndefined();
+  });
+
+  it('finds the same paths with precomputed corner costs', () => {
+    const random = createRandom(1);
+    const obstacles = [square(1, 1, 2), square(5, 0, 2), square(3, 5, 3), square(7, 4, 1)];
+    const graph = new VisibilityGraph(obstacles);
+    const corners = graph.findCornerCosts(euclidean);
+
+    for (let i = 0; i < 50; i++) {
+      const from: [number, number] = [random() * 10, random() * 10];
+      const to: [number, number] = [random() * 10, random() * 10];
+      const searched = graph.findPath(from, to, euclidean);
+      const precomputed = graph.findPath(from, to, euclidean, corners);
+
+      if (!searched) {
+        expect(precomputed).toBeUndefined();
+      } else {
+        expect(precomputed!.cost).toBeCloseTo(searched.cost);
+        expect(precomputed!.path[0]).toEqual(from);
+        expect(precomputed!.path[precomputed!.path.length - 1]).toEqual(to);
+
+        const length = precomputed!.path.slice(1).reduce((total, position, index) => total + euclidean(precomputed!.path[index], position), 0);
+        expect(length).toBeCloseTo(precomputed!.cost);
+      }
+    }
+  });
+
+  it('finds the cheapest costs between corners through other corners', () => {
+    const graph = new VisibilityGraph([square(0, 0, 2)]);
+    const { costs } = graph.findCornerCosts(euclidean);
+
+    // opposite corners of the square are connected along its edges
+    expect(costs[0][2]).toBeCloseTo(4);
+    expect(costs[0][1]).toBeCloseTo(2);
+    expect(costs[1][1]).toBe(0);
+  });
+});
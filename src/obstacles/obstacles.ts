@@ -0,0 +1,338 @@
+import { Feature, MultiPolygon, Polygon } from '@turf/helpers';
+
+/**
+ * An area vehicles can't travel through, such as restricted airspace or a
+ * lake. Polygon edges are treated as straight lines in [lon, lat]
+ */
+export type Obstacle = Polygon | MultiPolygon | Feature<Polygon | MultiPolygon>;
+
+/**
+ * Cheapest costs between every pair of obstacle corners, travelling
+ * between corners that can see each other
+ */
+export interface CornerCosts {
+  /** costs[a][b] = cheapest cost from corner a to corner b */
+  costs: number[][];
+
+  /** next[a][b] = the corner after a on the cheapest path from a to b */
+  next: number[][];
+}
+
+/**
+ * Finds shortest paths around obstacles. Paths only turn at the corners of
+ * obstacles, so the shortest path is found by searching the graph of
+ * corners that can see each other
+ */
+export class VisibilityGraph {
+  private rings: Array<Array<[number, number]>> = []; // rings of each polygon, outer ring first
+  private polygons: number[][] = []; // indices of the rings of each polygon
+  private vertices: Array<[number, number]> = []; // corners of all obstacles
+  private visible: boolean[][] = []; // whether each pair of corners can see each other
+
+  /**
+   * @param obstacles Areas that can't be travelled through
+   */
+  constructor(obstacles: Obstacle[]) {
+    obstacles.forEach(obstacle => {
+      const geometry = obstacle.type === 'Feature' ? obstacle.geometry : obstacle;
+      if (!geometry) {
+        return;
+      }
+
+      const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+      polygons.forEach(polygon => {
+        this.polygons.push(polygon.map(ring => {
+          // rings are closed, so the last position repeats the first
+          const positions = ring.slice(0, -1).map(position => [position[0], position[1]] as [number, number]);
+          this.vertices.push(...positions);
+          this.rings.push(positions);
+          return this.rings.length - 1;
+        }));
+      });
+    });
+
+    this.visible = this.vertices.map(() => []);
+    this.vertices.forEach((vertex, i) => {
+      for (let j = 0; j < i; j++) {
+        this.visible[i][j] = this.visible[j][i] = !this.isBlocked(vertex, this.vertices[j]);
+      }
+    });
+  }
+
+  /**
+   * Finds the cheapest path between two positions that avoids the obstacles
+   * @param from [lon, lat]
+   * @param to [lon, lat]
+   * @param legCost Cost of travelling in a straight line between two positions
+   * @param corners Costs between corners found with the same leg cost. If given, only
+   * the ends of the path are connected to the corners, rather than searching the whole graph
+   * @returns Positions from the start to the end, turning at obstacle corners, and the
+   * total cost. Undefined if either end is inside an obstacle or there is no way around
+   */
+  findPath(from: [number, number], to: [number, number], legCost: (from: [number, number], to: [number, number]) => number, corners?: CornerCosts): { path: Array<[number, number]>, cost: number } | undefined {
+    if (this.isInside(from) || this.isInside(to)) {
+      return undefined;
+    }
+    if (!this.isBlocked(from, to)) {
+      return { path: [from, to], cost: legCost(from, to) };
+    }
+    if (corners) {
+      return this.findCornerPath(from, to, legCost, corners);
+    }
+
+    // dijkstra over the corners, with the start last but one and the end last
+    const nodes = [...this.vertices, from, to];
+    const start = nodes.length - 2;
+    const end = nodes.length - 1;
+    const canSee = (a: number, b: number) => a < start && b < start
+      ? this.visible[a][b]
+      : a !== b && !this.isBlocked(nodes[a], nodes[b]);
+
+    const costs = nodes.map(() => Infinity);
+    const previous = nodes.map(() => -1);
+    const done = nodes.map(() => false);
+    costs[start] = 0;
+
+    for (;;) {
+      let current = -1;
+      costs.forEach((cost, index) => {
+        if (!done[index] && cost < Infinity && (current === -1 || cost < costs[current])) {
+          current = index;
+        }
+      });
+      if (current === -1 || current === end) {
+        break;
+      }
+
+      done[current] = true;
+      nodes.forEach((node, index) => {
+        if (done[index] || !canSee(current, index)) {
+          return;
+        }
+
+        const cost = costs[current] + legCost(nodes[current], node);
+        if (cost < costs[index]) {
+          costs[index] = cost;
+          previous[index] = current;
+        }
+      });
+    }
+
+    if (costs[end] === Infinity) {
+      return undefined;
+    }
+
+    const path: Array<[number, number]> = [];
+    for (let node = end; node !== -1; node = previous[node]) {
+      path.unshift(nodes[node]);
+    }
+    return { path, cost: costs[end] };
+  }
+
+  /**
+   * Finds the cheapest costs between every pair of corners (Floyd-Warshall),
+   * so paths between many positions can be found without searching the whole
+   * graph each time
+   * @param legCost Cost of travelling in a straight line between two positions
+   */
+  findCornerCosts(legCost: (from: [number, number], to: [number, number]) => number): CornerCosts {
+    const count = this.vertices.length;
+    const costs = this.vertices.map((vertex, a) => this.vertices.map((other, b) => {
+      if (a === b) {
+        return 0;
+      }
+      return this.visible[a][b] ? legCost(vertex, other) : Infinity;
+    }));
+    const next = this.vertices.map(() => this.vertices.map((_, b) => b));
+
+    for (let k = 0; k < count; k++) {
+      for (let a = 0; a < count; a++) {
+        if (costs[a][k] === Infinity) {
+          continue;
+        }
+        for (let b = 0; b < count; b++) {
+          const cost = costs[a][k] + costs[k][b];
+          if (cost < costs[a][b]) {
+            costs[a][b] = cost;
+            next[a][b] = next[a][k];
+          }
+        }
+      }
+    }
+
+    return { costs, next };
+  }
+
+  /**
+   * Whether a position is strictly inside an obstacle. Positions on the
+   * edge of an obstacle are outside it
+   * @param position [lon, lat]
+   */
+  isInside(position: [number, number]) {
+    return this.polygons.some(rings => {
+      if (rings.some(ring => onRing(position, this.rings[ring]))) {
+        return false;
+      }
+
+      // inside the outer ring, but not in a hole
+      return rings.every((ring, index) => inRing(position, this.rings[ring]) === (index === 0));
+    });
+  }
+
+  /**
+   * Finds the cheapest path between two positions that can't see each
+   * other, through the corners each of them can see
+   * @param from [lon, lat]
+   * @param to [lon, lat]
+   * @param legCost
+   * @param corners
+   */
+  private findCornerPath(from: [number, number], to: [number, number], legCost: (from: [number, number], to: [number, number]) => number, corners: CornerCosts) {
+    const starts = this.vertices
+      .map((vertex, index) => ({ index, cost: this.isBlocked(from, vertex) ? Infinity : legCost(from, vertex) }))
+      .filter(start => start.cost < Infinity);
+    const ends = this.vertices
+      .map((vertex, index) => ({ index, cost: this.isBlocked(vertex, to) ? Infinity : legCost(vertex, to) }))
+      .filter(end => end.cost < Infinity);
+
+    let best: { start: number, end: number, cost: number } | undefined;
+    starts.forEach(start => ends.forEach(end => {
+      const cost = start.cost + corners.costs[start.index][end.index] + end.cost;
+      if (cost < Infinity && (!best || cost < best.cost)) {
+        best = { start: start.index, end: end.index, cost };
+      }
+    }));
+
+    if (!best) {
+      return undefined;
+    }
+
+    const path: Array<[number, number]> = [from, this.vertices[best.start]];
+    for (let corner = best.start; corner !== best.end;) {
+      corner = corners.next[corner][best.end];
+      path.push(this.vertices[corner]);
+    }
+    path.push(to);
+    return { path, cost: best.cost };
+  }
+
+  /**
+   * Whether a straight line between two positions passes through an
+   * obstacle. Lines may run along the edges of obstacles and touch their corners
+   * @param from [lon, lat]
+   * @param to [lon, lat]
+   */
+  private isBlocked(from: [number, number], to: [number, number]) {
+    // split the line where it meets obstacle edges. Each piece is either
+    // entirely inside or entirely outside an obstacle
+    const crossings = [0, 1];
+    this.rings.forEach(ring => ring.forEach((corner, index) => {
+      crossings.push(...intersections(from, to, corner, ring[(index + 1) % ring.length]));
+    }));
+    crossings.sort((a, b) => a - b);
+
+    return crossings.some((crossing, index) => {
+      const next = crossings[index + 1];
+      if (typeof next === 'undefined' || next - crossing < EPSILON) {
+        return false;
+      }
+
+      const t = (crossing + next) / 2;
+      return this.isInside([from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t]);
+    });
+  }
+}
+
+/**
+ * Tolerance for treating positions as on a line
+ */
+const EPSILON = 1e-10;
+
+/**
+ * Where along a line the line meets an edge
+ * @param from Start of the line
+ * @param to End of the line
+ * @param start Start of the edge
+ * @param end End of the edge
+ * @returns Fractions of the way along the line (0 to 1) it meets the edge. Both ends of any overlap are included
+ */
+function intersections(from: [number, number], to: [number, number], start: [number, number], end: [number, number]): number[] {
+  const line = subtract(to, from);
+  const edge = subtract(end, start);
+  const offset = subtract(start, from);
+  const denominator = cross(line, edge);
+
+  // parallel lines only meet if they overlap
+  if (Math.abs(denominator) < EPSILON) {
+    const length = dot(line, line);
+    if (Math.abs(cross(offset, line)) >= EPSILON || length === 0) {
+      return [];
+    }
+    return [dot(offset, line) / length, dot(subtract(end, from), line) / length].filter(t => t >= 0 && t <= 1);
+  }
+
+  const t = cross(offset, edge) / denominator;
+  const u = cross(offset, line) / denominator;
+  return t >= -EPSILON && t <= 1 + EPSILON && u >= -EPSILON && u <= 1 + EPSILON ? [t] : [];
+}
+
+/**
+ * Whether a position is inside a ring, by counting how many of its edges a
+ * ray from the position crosses
+ * @param position
+ * @param ring Corners of the ring
+ */
+function inRing(position: [number, number], ring: Array<[number, number]>) {
+  let inside = false;
+  ring.forEach((corner, index) => {
+    const previous = ring[(index + ring.length - 1) % ring.length];
+    if ((corner[1] > position[1]) !== (previous[1] > position[1])
+      && position[0] < (previous[0] - corner[0]) * (position[1] - corner[1]) / (previous[1] - corner[1]) + corner[0]) {
+      inside = !inside;
+    }
+  });
+  return inside;
+}
+
+/**
+ * Whether a position is on one of the edges of a ring
+ * @param position
+ * @param ring Corners of the ring
+ */
+function onRing(position: [number, number], ring: Array<[number, number]>) {
+  return ring.some((corner, index) => {
+    const next = ring[(index + 1) % ring.length];
+    const edge = subtract(next, corner);
+    const offset = subtract(position, corner);
+    const length = dot(edge, edge);
+    const t = length === 0 ? 0 : dot(offset, edge) / length;
+    return t >= 0 && t <= 1 && Math.abs(cross(offset, edge)) <= EPSILON * Math.max(1, Math.sqrt(length));
+  });
+}
+
+/**
+ * Difference between two vectors
+ * @param a
+ * @param b
+ */
+function subtract(a: [number, number], b: [number, number]): [number, number] {
+  return [a[0] - b[0], a[1] - b[1]];
+}
+
+/**
+ * Cross product (z component) of two vectors
+ * @param a
+ * @param b
+ */
+function cross(a: [number, number], b: [number, number]) {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+/**
+ * Dot product of two vectors
+ * @param a
+ * @param b
+ */
+function dot(a: [number, number], b: [number, number]) {
+  return a[0] * b[0] + a[1] * b[1];
+}
\ No newline at end of file
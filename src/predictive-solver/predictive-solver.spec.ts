@@ -0,0 +1,411 @@
+import { MatrixCostProvider } from '../cost-provider/cost-provider';
+import { LinearEnergyModel } from '../energy/energy';
+import { ConstantWind } from '../wind/wind';
+import { PredictiveSolver, VehiclePlan } from './predictive-solver';
+
+describe('PredictiveSolver', () => {
+  it('rejects cost matrices, which never contain the interceptions', () => {
+    const costProvider = new MatrixCostProvider({ locations: [[0, 0]], costs: [[0]] });
+
+    expect(() => new PredictiveSolver({ costProvider })).toThrow('MatrixCostProvider');
+  });
+
+  it('reports when and where each target is intercepted', () => {
+    const solver = new PredictiveSolver();
+    const away = { positions: [[1, 0], [10, 0]] as Array<[number, number]>, speed: 2 };
+
+    const solution = solver.solve({
+      vehicles: [{ speed: 1, maxRouteDistance: 10, depot: [0, 0] }],
+      targets: [away, { positions: [[0, 2]] }, { positions: [[0, 1]], serviceDuration: 2 }],
+    });
+    const route = solution.routes[0];
+
+    expect(route.stops.map(stop => stop.targetIndex)).toEqual([2, 1]);
+    expect(route.points.map(point => point.map(Math.round))).toEqual([[0, 0], [0, 1], [0, 2], [0, 0]]);
+    expect(route.stops[0].time).toBeCloseTo(1);
+    expect(route.stops[0].departureTime).toBeCloseTo(3);
+    expect(route.stops[1].distance).toBeCloseTo(2);
+    expect(route.stops[1].remainingRange).toBeCloseTo(8);
+    expect(route.distance).toBeCloseTo(4);
+    expect(route.duration).toBeCloseTo(6);
+    expect(solution.unreachedTargets).toEqual([{ target: away, reason: 'no intercept' }]);
+    expect(solution.statistics).toMatchObject({ targets: 3, reachedTargets: 2, unreachedTargets: 1, routes: 1 });
+  });
+
+  it('intercepts targets following timestamped positions', () => {
+    const solver = new PredictiveSolver();
+
+    const solution = solver.solve({
+      vehicles: [{ speed: 1, maxRouteDistance: 10, depot: [0, 0] }],
+      targets: [{ positions: [[0, 3, 0], [0, 0, 3]] }],
+    });
+    const stop = solution.routes[0].stops[0];
+
+    expect(stop.time).toBeCloseTo(1.5, 2);
+    expect(stop.position[1]).toBeCloseTo(1.5, 2);
+  });
+
+  describe('in metric units', () => {
+    it('measures distances and speeds in the given units', () => {
+      const solver = new PredictiveSolver({ units: 'kilometers' });
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 0.1, maxRouteDistance: 5, depot: [0, 0] }],
+        targets: [{ positions: [[0, 0.01]] }],
+      });
+
+      expect(solution.routes[0].distance).toBeCloseTo(2.224, 2);
+      expect(solution.routes[0].stops[0].time).toBeCloseTo(11.12, 1);
+    });
+
+    it('leaves targets beyond the range in the given units unreached', () => {
+      const solver = new PredictiveSolver({ units: 'kilometers' });
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 0.1, maxRouteDistance: 2, depot: [0, 0] }],
+        targets: [{ positions: [[0, 0.01]] }],
+      });
+
+      expect(solution.routes).toHaveLength(0);
+      expect(solution.unreachedTargets[0].reason).toBe('out of range');
+    });
+  });
+
+  describe('with many targets', () => {
+    const targets: Array<{ positions: Array<[number, number]> }> = [];
+    for (let i = 0; i < 40; i++) {
+      targets.push({ positions: [[Math.cos(i) * (1 + i % 3), Math.sin(i) * (1 + i % 3)]] });
+    }
+
+    it('plans for every target quickly with a beam search', () => {
+      const solver = new PredictiveSolver({ search: 'beam' });
+      const start = Date.now();
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 10, depot: [0, 0] }],
+        targets,
+      });
+
+      expect(Date.now() - start).toBeLessThan(5000);
+      expect(solution.statistics.reachedTargets).toBe(40);
+    });
+
+    it('returns the best plan found within the time budget', () => {
+      const solver = new PredictiveSolver({ timeBudget: 100 });
+      const start = Date.now();
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 10, depot: [0, 0] }],
+        targets,
+      });
+
+      expect(Date.now() - start).toBeLessThan(5000);
+      expect(solution.statistics.reachedTargets).toBe(40);
+    });
+  });
+
+  describe('with several vehicles', () => {
+    it('sends the closest vehicle to each target', () => {
+      const solver = new PredictiveSolver();
+      const west = { name: 'west', speed: 1, maxRouteDistance: 5, depot: [-10, 0] as [number, number] };
+      const east = { name: 'east', speed: 1, maxRouteDistance: 5, depot: [10, 0] as [number, number] };
+
+      const solution = solver.solve({
+        vehicles: [west, east],
+        targets: [{ positions: [[9, 1]] }, { positions: [[-9, 1]] }, { positions: [[-9, -1]] }],
+      });
+
+      expect(solution.statistics.reachedTargets).toBe(3);
+      expect(solution.vehicles.map(plan => plan.vehicle)).toEqual([west, east]);
+      const targetsOf = (plan: VehiclePlan) => plan.routes
+        .reduce((indices, route) => [...indices, ...route.stops.map(stop => stop.targetIndex)], [] as number[])
+        .sort();
+      expect(targetsOf(solution.vehicles[0])).toEqual([1, 2]);
+      expect(targetsOf(solution.vehicles[1])).toEqual([0]);
+    });
+
+    it('flies the vehicles at the same time', () => {
+      const solver = new PredictiveSolver();
+      const vehicle = { speed: 1, maxRouteDistance: 3, depot: [0, 0] as [number, number] };
+
+      const solution = solver.solve({
+        vehicles: [vehicle, { ...vehicle }],
+        targets: [{ positions: [[1, 0]] }, { positions: [[-1, 0]] }],
+      });
+
+      expect(solution.routes).toHaveLength(2);
+      expect(solution.routes.map(route => route.startTime)).toEqual([0, 0]);
+      solution.routes.forEach(route => expect(route.stops[0].time).toBeCloseTo(1));
+    });
+  });
+
+  describe('with rewards and deadlines', () => {
+    it('intercepts the most valuable targets first', () => {
+      const solver = new PredictiveSolver();
+      const near = { positions: [[0, 1]] as Array<[number, number]>, deadline: 1.5 };
+      const valuable = { positions: [[0, -2]] as Array<[number, number]>, deadline: 2.5, reward: 5 };
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, depot: [0, 0] }],
+        targets: [near, valuable],
+      });
+
+      expect(solution.routes[0].stops.map(stop => stop.targetIndex)).toEqual([1]);
+      expect(solution.unreachedTargets).toEqual([{ target: near, reason: 'after deadline' }]);
+      expect(solution.statistics.expectedReward).toBeCloseTo(5);
+    });
+
+    it('leaves targets that can\'t be reached by their deadline unreached', () => {
+      const solver = new PredictiveSolver();
+      const late = { positions: [[0, 2]] as Array<[number, number]>, deadline: 1 };
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, depot: [0, 0] }],
+        targets: [late],
+      });
+
+      expect(solution.routes).toHaveLength(0);
+      expect(solution.unreachedTargets).toEqual([{ target: late, reason: 'after deadline' }]);
+    });
+  });
+
+  describe('over several sorties', () => {
+    it('starts each sortie after the last one and the turnaround', () => {
+      const solver = new PredictiveSolver();
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 2.5, turnaroundTime: 1, depot: [0, 0] }],
+        targets: [{ positions: [[0, 1]] }, { positions: [[0, -1]] }],
+      });
+      const [first, second] = solution.routes;
+
+      expect(solution.routes).toHaveLength(2);
+      expect(first.startTime).toBe(0);
+      expect(second.startTime).toBeCloseTo(first.duration + 1);
+      expect(second.stops[0].time).toBeCloseTo(second.startTime + 1);
+      expect(solution.vehicles[0].routes).toEqual(solution.routes);
+    });
+
+    it('intercepts moving targets where they are when each sortie flies', () => {
+      const solver = new PredictiveSolver();
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 2.5, depot: [0, 0] }],
+        targets: [{ positions: [[0, 1]] }, { positions: [[1, 0], [1, 10]], speed: 0.1 }],
+      });
+      const stops = solution.routes.map(route => route.stops[0]);
+      const moving = stops.find(stop => stop.targetIndex === 1)!;
+
+      expect(solution.routes).toHaveLength(2);
+      expect(moving.position[1]).toBeCloseTo(moving.time * 0.1, 2);
+    });
+  });
+
+  describe('in wind', () => {
+    it('flies faster over the ground with a tailwind', () => {
+      const solver = new PredictiveSolver({ wind: new ConstantWind(0.5, 0) });
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 10, depot: [0, 0] }],
+        targets: [{ positions: [[1, 0]] }],
+      });
+
+      expect(solution.routes[0].stops[0].time).toBeCloseTo(1 / 1.5, 2);
+      expect(solution.routes[0].duration).toBeCloseTo(1 / 1.5 + 1 / 0.5, 2);
+    });
+
+    it('uses more range flying into the wind', () => {
+      const problem = {
+        vehicles: [{ speed: 1, maxRouteDistance: 2.1, depot: [0, 0] as [number, number] }],
+        targets: [{ positions: [[1, 0]] as Array<[number, number]> }],
+      };
+
+      expect(new PredictiveSolver().solve(problem).statistics.reachedTargets).toBe(1);
+      expect(new PredictiveSolver({ wind: new ConstantWind(0.5, 0) }).solve(problem).unreachedTargets[0].reason).toBe('out of range');
+    });
+  });
+
+  describe('with a moving depot', () => {
+    it('throws if the depot has no positions', () => {
+      const solver = new PredictiveSolver();
+
+      expect(() => solver.solve({
+        vehicles: [{ name: 'drone', speed: 1, maxRouteDistance: 10, depot: { positions: [] } }],
+        targets: [{ positions: [[0, 1]] }],
+      })).toThrow('The moving depot of vehicle drone has no positions');
+    });
+
+    it('waits at a single timestamped position', () => {
+      const solver = new PredictiveSolver();
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 10, depot: { positions: [[1, 0, 0]] } }],
+        targets: [{ positions: [[1, 2]] }],
+      });
+
+      expect(solution.statistics.reachedTargets).toBe(1);
+      expect(solution.routes[0].points[0]).toEqual([1, 0]);
+      expect(solution.routes[0].points[2]).toEqual([1, 0]);
+      expect(solution.routes[0].distance).toBeCloseTo(4);
+    });
+
+    it('starts no sorties it can\'t get back from', () => {
+      // the depot drives into an obstacle before the vehicle can catch up with it
+      const solver = new PredictiveSolver({
+        obstacles: [{ type: 'Polygon', coordinates: [[[4, -1], [6, -1], [6, 1], [4, 1], [4, -1]]] }],
+      });
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, depot: { positions: [[0, 0], [5, 0]], speed: 1 } }],
+        targets: [{ positions: [[0, -3]] }, { positions: [[0, 3]] }],
+      });
+
+      expect(solution.routes).toHaveLength(0);
+      expect(solution.unreachedTargets.map(unreached => unreached.reason)).toEqual(['out of range', 'out of range']);
+      expect(solution.statistics.totalDistance).toBe(0);
+    });
+  });
+
+  describe('with endurance', () => {
+    it('stays with each target for the service duration', () => {
+      const solver = new PredictiveSolver({ serviceDuration: 2 });
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, depot: [0, 0] }],
+        targets: [{ positions: [[0, 1]] }, { positions: [[0, 2]], serviceDuration: 0 }],
+      });
+      const route = solution.routes[0];
+
+      expect(route.stops.map(stop => stop.departureTime - stop.time)).toEqual([2, 0]);
+      expect(route.stops[1].time).toBeCloseTo(4);
+      expect(route.duration).toBeCloseTo(6);
+    });
+
+    it('only starts sorties the vehicle has the endurance to finish', () => {
+      const solver = new PredictiveSolver({ search: 'greedy' });
+      const far = { positions: [[0, 2]] as Array<[number, number]> };
+      const slow = { positions: [[0, 0.5]] as Array<[number, number]>, serviceDuration: 5 };
+      const near = { positions: [[0, 1]] as Array<[number, number]> };
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, endurance: 3, depot: [0, 0] }],
+        targets: [far, slow, near],
+      });
+
+      expect(solution.unreachedTargets).toEqual([
+        { target: far, reason: 'out of range' },
+        { target: slow, reason: 'out of range' },
+      ]);
+      expect(solution.routes).toHaveLength(1);
+      expect(solution.routes[0].startTime).toBe(0);
+      expect(solution.routes[0].duration).toBeCloseTo(2);
+    });
+  });
+
+  describe('with energy', () => {
+    it('only starts sorties the vehicle has the energy to finish', () => {
+      const solver = new PredictiveSolver({ search: 'greedy', energyModel: new LinearEnergyModel({ perServiceSecond: 1 }) });
+      const far = { positions: [[0, 2]] as Array<[number, number]> };
+      const slow = { positions: [[0, 0.5]] as Array<[number, number]>, serviceDuration: 3 };
+      const near = { positions: [[0, 1]] as Array<[number, number]> };
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, energy: 3, depot: [0, 0] }],
+        targets: [far, slow, near],
+      });
+
+      expect(solution.unreachedTargets).toEqual([
+        { target: far, reason: 'out of range' },
+        { target: slow, reason: 'out of range' },
+      ]);
+      expect(solution.routes).toHaveLength(1);
+      expect(solution.routes[0].startTime).toBe(0);
+      expect(solution.routes[0].energy).toBeCloseTo(2);
+      expect(solution.routes[0].stops[0].remainingEnergy).toBeCloseTo(2);
+    });
+
+    it('uses more energy carrying a payload', () => {
+      const solver = new PredictiveSolver({ energyModel: new LinearEnergyModel({ perPayloadDistance: 1 }) });
+      const problem = (payload: number) => ({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, energy: 3, payload, depot: [0, 0] as [number, number] }],
+        targets: [{ positions: [[0, 1]] as Array<[number, number]> }],
+      });
+
+      expect(solver.solve(problem(0)).routes[0].energy).toBeCloseTo(2);
+      expect(solver.solve(problem(2)).unreachedTargets[0].reason).toBe('out of range');
+    });
+
+    it('uses energy hovering while waiting for a target', () => {
+      // the detour around the obstacle gets the vehicle to the target's path just before it
+      const solver = new PredictiveSolver({
+        energyModel: new LinearEnergyModel({ perServiceSecond: 1 }),
+        obstacles: [{ type: 'Polygon', coordinates: [[[1, -1], [2, -1], [2, 1], [1, 1], [1, -1]]] }],
+      });
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, depot: [0, 0] }],
+        targets: [{ positions: [[3, 3], [3, -3]], speed: 0.5 }],
+      });
+      const route = solution.routes[0];
+      const hoverTime = route.stops[0].time - route.stops[0].distance;
+
+      expect(hoverTime).toBeGreaterThan(0);
+      expect(route.energy - route.distance).toBeCloseTo(hoverTime, 9);
+    });
+  });
+
+  describe('with uncertain targets', () => {
+    it('throws if there is no detection radius to meet uncertain targets with', () => {
+      const solver = new PredictiveSolver();
+
+      [{ positionError: 0.001 }, { errorGrowth: 0.001 }, { alternatives: [{ positions: [[0, 2]] as Array<[number, number]> }] }]
+        .forEach(uncertainty => expect(() => solver.solve({
+          vehicles: [{ speed: 1, maxRouteDistance: 100, depot: [0, 0] }],
+          targets: [{ positions: [[0, 1]] }, { positions: [[0, 1]], ...uncertainty }],
+        })).toThrow('Target 1 is uncertain, so the solver needs a detectionRadius to meet it'));
+    });
+
+    it('counts targets it has no chance of meeting as unreached', () => {
+      // none of the paths the target might take has any weight
+      const solver = new PredictiveSolver({ detectionRadius: 0.1 });
+      const target = { positions: [[0, 1]] as Array<[number, number]>, weight: 0, alternatives: [{ positions: [[0, 2]] as Array<[number, number]>, weight: 0 }] };
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, depot: [0, 0] }],
+        targets: [target],
+      });
+
+      expect(solution.routes).toHaveLength(0);
+      expect(solution.unreachedTargets).toEqual([{ target, reason: 'no intercept' }]);
+      expect(solution.statistics.reachedTargets).toBe(0);
+    });
+
+    it('intercepts the most likely of the paths a target might take', () => {
+      const solver = new PredictiveSolver({ detectionRadius: 0.01 });
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, depot: [0, 0] }],
+        targets: [{ positions: [[0, -1]], alternatives: [{ positions: [[0, 2]], weight: 3 }] }],
+      });
+      const stop = solution.routes[0].stops[0];
+
+      expect(stop.position[1]).toBeCloseTo(2);
+      expect(stop.probability).toBeCloseTo(0.75);
+    });
+
+    it('counts targets it might meet as reached', () => {
+      const solver = new PredictiveSolver({ detectionRadius: 0.1 });
+
+      const solution = solver.solve({
+        vehicles: [{ speed: 1, maxRouteDistance: 100, depot: [0, 0] }],
+        targets: [{ positions: [[0, 1]], positionError: 0.1 }],
+      });
+      const probability = solution.routes[0].stops[0].probability;
+
+      expect(probability).toBeGreaterThan(0);
+      expect(probability).toBeLessThan(1);
+      expect(solution.statistics.reachedTargets).toBe(1);
+      expect(solution.statistics.expectedReachedTargets).toBeCloseTo(probability);
+    });
+  });
+});
\ No newline at end of file
@@ -1,222 +1,896 @@
 import getDistance from '@turf/distance';
-import lineSliceAlong from '@turf/line-slice-along';
-import { lineString } from '@turf/helpers';
-import { findTargetLineInterception } from './target-interception';
+import { convertLength, Units } from '@turf/helpers';
+import { findGeodesicInterception, TargetInterception } from './target-interception';
+import { createTrajectory, positionAt, TrajectorySegment } from './trajectory';
+import { detectionProbability } from './uncertainty';
+import { CostProvider, HaversineCostProvider, MatrixCostProvider, WindCostProvider } from '../cost-provider/cost-provider';
+import { WindField, groundSpeed, trackBetween } from '../wind/wind';
+import { Obstacle, VisibilityGraph } from '../obstacles/obstacles';
+import { EnergyModel, LinearEnergyModel } from '../energy/energy';
+import { search, SearchMode } from './search';
+
+export { SearchMode } from './search';
 
 export interface TargetPath {
-  speed: number,
-  positions: Array<[number, number]>,
+  /** Target speed in solver units per second (degrees per second by default) */
+  speed?: number,
+
+  /**
+   * Positions [lon, lat] the target moves through. Positions can be
+   * timestamped [lon, lat, t] with t in seconds from the start of planning,
+   * in which case the speeds are worked out from the timestamps
+   */
+  positions: Array<[number, number] | [number, number, number]>,
+
+  /** Speed between each pair of positions in solver units per second. Overrides speed */
+  speeds?: number[],
+
+  /** Standard deviation of the target's position at the start of planning, in solver units */
+  positionError?: number,
+
+  /** How fast the standard deviation of the target's position grows, in solver units per second */
+  errorGrowth?: number,
+
+  /**
+   * Other paths the target might take instead. The chance of each path is
+   * its weight divided by the total weight of this path and its alternatives
+   */
+  alternatives?: TargetPath[],
+
+  /** Relative chance of the target taking this path (default 1) */
+  weight?: number,
+
+  /** How valuable intercepting the target is (default 1). Higher rewards are prioritised */
+  reward?: number,
+
+  /** Time (in seconds from the start of planning) the target must be intercepted by */
+  deadline?: number,
+
+  /** Time (in seconds) the vehicle stays with the target once intercepted. Overrides the solver's service duration */
+  serviceDuration?: number,
+}
+
+/**
+ * Why a target could not be intercepted
+ */
+export type UnreachedReason = 'no intercept' | 'out of range' | 'after deadline';
+
+/**
+ * A target that isn't intercepted by any route
+ */
+export interface UnreachedTarget {
+  /** The target path as given to the solver */
+  target: TargetPath;
+
+  /** Why the target could not be intercepted */
+  reason: UnreachedReason;
+}
+
+/**
+ * A vehicle that intercepts targets
+ */
+export interface InterceptorVehicle {
+  /** Name used to identify the vehicle */
+  name?: string;
+
+  /** Speed in units per second (through the air, if there is wind) */
+  speed: number;
+
+  /** Maximum distance of a single sortie in units. In wind, this is the distance flown through the air */
+  maxRouteDistance: number;
+
+  /**
+   * Maximum time (in seconds) of a single sortie, including time spent with
+   * targets. Sorties are only limited by distance if not set
+   */
+  endurance?: number;
+
+  /** Time (in seconds) to turn the vehicle around at the depot between sorties, such as to recharge (default 0) */
+  turnaroundTime?: number;
+
+  /**
+   * Energy (such as battery charge) the vehicle has for a single sortie, used
+   * up according to the solver's energy model. Sorties aren't limited by energy if not set
+   */
+  energy?: number;
+
+  /** Load the vehicle carries, which can make it use more energy (default 0) */
+  payload?: number;
+
+  /**
+   * Where the vehicle's sorties start and end [lon, lat], or the path of a
+   * moving base (such as a truck or boat) the vehicle launches from and
+   * returns to. A moving base needs at least one position, and waits at the end of its path
+   */
+  depot: [number, number] | TargetPath;
+}
+
+/**
+ * Targets to intercept and the vehicles available to intercept them
+ */
+export interface PredictiveProblem {
+  /** Vehicles operating at the same time */
+  vehicles: InterceptorVehicle[];
+
+  /** Future paths of the targets. Each target is intercepted by at most one vehicle */
+  targets: TargetPath[];
+}
+
+/**
+ * An interception along a route
+ */
+export interface InterceptStop {
+  /** Where the target is intercepted [lon, lat] */
+  position: [number, number];
+
+  /** Index of the intercepted target in the targets given to the solver */
+  targetIndex: number;
+
+  /** Time of the interception, in seconds from the start of planning */
+  time: number;
+
+  /** Time the vehicle leaves the target, after its service duration, in seconds from the start of planning */
+  departureTime: number;
+
+  /** Distance flown on the sortie up to the interception */
+  distance: number;
+
+  /** Distance the vehicle can still fly on the sortie after the interception */
+  remainingRange: number;
+
+  /** Time (in seconds) the vehicle can still spend on the sortie after leaving the target. Infinity if the vehicle has no endurance */
+  remainingEndurance: number;
+
+  /** Energy the vehicle has left after leaving the target. Infinity if the vehicle's energy isn't limited */
+  remainingEnergy: number;
+
+  /** Probability of actually meeting the target, given the uncertainty in its path */
+  probability: number;
+}
+
+/**
+ * A single sortie from a vehicle's depot
+ */
+export interface PredictiveRoute {
+  /** Route points (lon, lat), starting and ending at the depot */
+  points: Array<[number, number]>;
+
+  /** Positions (lon, lat) flown through, including any detours around obstacles */
+  path: Array<[number, number]>;
+
+  /** Interceptions in the order they happen */
+  stops: InterceptStop[];
+
+  /** Total route distance, including the return to the depot */
+  distance: number;
+
+  /** Energy used on the route, including the return to the depot */
+  energy: number;
+
+  /** Time the vehicle leaves the depot, in seconds from the start of planning */
+  startTime: number;
+
+  /** Time (in seconds) from leaving the depot to returning to it */
+  duration: number;
+
+  /** Vehicle flying the route */
+  vehicle: InterceptorVehicle;
+}
+
+/**
+ * The sorties planned for one vehicle
+ */
+export interface VehiclePlan {
+  /** The vehicle as given to the solver */
+  vehicle: InterceptorVehicle;
+
+  /** Sorties of the vehicle, in the order they are flown */
+  routes: PredictiveRoute[];
+}
+
+/**
+ * Summary statistics of a predictive solution
+ */
+export interface PredictiveStatistics {
+  /** Number of targets given to the solver */
+  targets: number;
+
+  /** Number of targets intercepted */
+  reachedTargets: number;
+
+  /** Number of targets expected to be met, the sum of the stop probabilities */
+  expectedReachedTargets: number;
+
+  /** Total reward expected to be collected, the sum of each stop's probability times its reward */
+  expectedReward: number;
+
+  /** Number of targets that could not be intercepted */
+  unreachedTargets: number;
+
+  /** Number of routes (sorties from the depot) */
+  routes: number;
+
+  /** Total distance of all routes */
+  totalDistance: number;
+}
+
+/**
+ * Solution found by the predictive solver
+ */
+export interface PredictiveSolution {
+  /** Routes of all vehicles */
+  routes: PredictiveRoute[];
+
+  /** Routes of each vehicle, in the order the vehicles were given */
+  vehicles: VehiclePlan[];
+
+  /** Targets that aren't intercepted by any route */
+  unreachedTargets: UnreachedTarget[];
+
+  /** Summary of the solution */
+  statistics: PredictiveStatistics;
+}
+
+/**
+ * Options for the predictive solver
+ */
+export interface PredictiveSolverOptions {
+  /**
+   * Distance unit of speeds (per second), distances and results.
+   * Defaults to degrees for backwards compatibility
+   */
+  units?: Units;
+
+  /**
+   * Provides the travel cost between locations, used to check route lengths.
+   * Must return costs in units. Defaults to great circle distance.
+   * Can't be a MatrixCostProvider, as interceptions are found during planning
+   * so are never in the matrix
+   */
+  costProvider?: CostProvider;
+
+  /**
+   * How to search for the best order to intercept the targets in (default exact).
+   * Use beam or greedy for large numbers of targets
+   */
+  search?: SearchMode;
+
+  /** Number of partial plans kept at each step of a beam search (default 10) */
+  beamWidth?: number;
+
+  /**
+   * Wind velocity in units per second. Vehicles fly at their speed through
+   * the air, so the wind changes how fast they cover the ground and how much
+   * of their range each leg uses
+   */
+  wind?: WindField;
+
+  /**
+   * Areas (GeoJSON polygons) vehicles can't fly through, such as restricted
+   * airspace. Vehicles detour around them, and targets inside them can't be intercepted
+   */
+  obstacles?: Obstacle[];
+
+  /**
+   * Time (in seconds) a vehicle stays with each target it intercepts (default 0).
+   * Targets can override it with their own service duration
+   */
+  serviceDuration?: number;
+
+  /**
+   * Works out the energy vehicles use from the distance of each leg, their
+   * payload and the time spent hovering, both waiting for targets and staying
+   * with them. Defaults to one unit of energy per unit of distance
+   */
+  energyModel?: EnergyModel;
+
+  /**
+   * How close (in units) a vehicle must get to a target to meet it.
+   * Required for targets with uncertain positions or alternative paths,
+   * which a vehicle would otherwise never be sure to meet
+   */
+  detectionRadius?: number;
+
+  /**
+   * Time (in milliseconds) the search may take before returning the best
+   * plan found so far (default 1000)
+   */
+  timeBudget?: number;
 }
 
 export class PredictiveSolver {
+  private units: Units;
+  private costProvider: CostProvider;
+  private searchMode: SearchMode;
+  private beamWidth: number;
+  private timeBudget: number;
+  private wind?: WindField;
+  private obstacles?: VisibilityGraph;
+  private serviceDuration: number;
+  private energyModel: EnergyModel;
+  private detectionRadius: number;
+  private trajectories = new WeakMap<TargetPath, TrajectorySegment[]>();
+  private baseTrajectories = new WeakMap<TargetPath, TrajectorySegment[]>();
+  private vehicleCostProviders = new WeakMap<InterceptorVehicle, CostProvider>();
+
+  /**
+   * @param options
+   * @throws If the cost provider is a MatrixCostProvider
+   */
+  constructor(options: PredictiveSolverOptions = {}) {
+    if (options.costProvider instanceof MatrixCostProvider) {
+      throw new Error('PredictiveSolver can\'t use a MatrixCostProvider, as interceptions are never in the matrix');
+    }
+
+    this.units = options.units || 'degrees';
+    this.costProvider = options.costProvider || new HaversineCostProvider(this.units);
+    this.searchMode = options.search || 'exact';
+    this.beamWidth = options.beamWidth || 10;
+    this.timeBudget = typeof options.timeBudget === 'undefined' ? 1000 : options.timeBudget;
+    this.wind = options.wind;
+    this.obstacles = options.obstacles ? new VisibilityGraph(options.obstacles) : undefined;
+    this.serviceDuration = options.serviceDuration || 0;
+    this.energyModel = options.energyModel || new LinearEnergyModel();
+    this.detectionRadius = options.detectionRadius || 0;
+  }
+
   /**
-   * Finds all possible permutations of the given paths.
-   * For each permutation, finds the intercept of the vehicle with the paths
+   * Searches over the orders the targets can be intercepted in, and the
+   * vehicles that intercept them. Vehicles operate at the same time, each
+   * doing its own sorties from its depot.
+   * For each order, finds the intercept of the vehicles with the paths
    * and then chooses the most optimal route.
-   * @param vehicleSpeedDeg Vehicle speed in degrees per second
-   * @param maxRouteDistanceDeg vehicle maximum route distance in degrees
+   * @param problem The vehicles and targets
+   * @throws If a vehicle's moving depot has no positions, or a target is
+   * uncertain and no detection radius is set
+   */
+  solve(problem: PredictiveProblem): PredictiveSolution;
+  /**
+   * Plans sorties for a single vehicle
+   * @param vehicleSpeed Vehicle speed in units per second
+   * @param maxRouteDistance vehicle maximum route distance in units
    * @param depotLon depot longitude
    * @param depotLat depot latitude
-   * @param futurePaths future paths array. All speeds should be in degrees per second. Positions are [lon, lat]
+   * @param futurePaths future paths array. All speeds should be in units per second. Positions are [lon, lat]
    */
-  solve(vehicleSpeedDeg: number, maxRouteDistanceDeg: number, depotLon: number, depotLat: number, futurePaths: Array<TargetPath>) {
-    if (vehicleSpeedDeg <= 0) {
-      return [];
-    }
+  solve(vehicleSpeed: number, maxRouteDistance: number, depotLon: number, depotLat: number, futurePaths: Array<TargetPath>): PredictiveSolution;
+  solve(problemOrSpeed: PredictiveProblem | number, maxRouteDistance?: number, depotLon?: number, depotLat?: number, futurePaths?: Array<TargetPath>): PredictiveSolution {
+    const problem: PredictiveProblem = typeof problemOrSpeed === 'number'
+      ? {
+        vehicles: [{ speed: problemOrSpeed, maxRouteDistance: maxRouteDistance as number, depot: [depotLon as number, depotLat as number] }],
+        targets: futurePaths || [],
+      }
+      : problemOrSpeed;
 
-    // calculate all permutations of predictions (i.e. for each target)
-    const permutations: Array<Array<TargetPath>> = [];
-    const permute = (arr: any[], m: any[] = []) => {
-      if (arr.length === 0) {
-        permutations.push(m);
-        return;
+    problem.vehicles.forEach((vehicle, index) => {
+      if (!Array.isArray(vehicle.depot) && !vehicle.depot.positions.length) {
+        throw new Error(`The moving depot of vehicle ${vehicle.name || index} has no positions`);
       }
-      for (let i = 0; i < arr.length; i++) {
-        const curr = arr.slice();
-        const next: Array<Array<TargetPath>> = curr.splice(i, 1);
-        permute(curr.slice(), m.concat(next));
+    });
+    problem.targets.forEach((target, index) => {
+      if (!(this.detectionRadius > 0) && isUncertain(target)) {
+        throw new Error(`Target ${index} is uncertain, so the solver needs a detectionRadius to meet it`);
       }
+    });
+
+    const plan = search<Plan>({
+      initial: {
+        vehicles: problem.vehicles.map(vehicle => ({ vehicle, sorties: [], active: this.createSortie(vehicle) })),
+        unreached: [],
+        remaining: problem.targets,
+        totalDistance: 0,
+        reward: 0,
+      },
+      expand: plan => {
+        const children: Plan[] = [];
+        plan.remaining.forEach(target => {
+          plan.vehicles.forEach((state, index) => {
+            // vehicles that can't move can't intercept anything
+            if (state.vehicle.speed > 0) {
+              children.push(this.addTarget(plan, target, index));
+            }
+          });
+        });
+        return children;
+      },
+      finish: plan => this.finishPlan(plan),
+      compare: comparePlans,
+      canPrune: (plan, best) => {
+        // at best, every remaining target is reached without travelling any further
+        const maxReward = plan.remaining.reduce((total, target) => total + rewardOf(target), plan.reward);
+        return maxReward < best.reward || (maxReward === best.reward && plan.totalDistance >= best.totalDistance);
+      },
+    }, this.searchMode, { beamWidth: this.beamWidth, timeBudget: this.timeBudget });
+
+    return this.createSolution(plan, problem.targets);
+  }
+
+  /**
+   * Tries to intercept a target next with one of the vehicles,
+   * continuing on from a plan
+   * @param plan The plan so far
+   * @param target The target to intercept
+   * @param vehicleIndex Index of the vehicle in the plan
+   * @returns The new plan
+   */
+  private addTarget(plan: Plan, target: TargetPath, vehicleIndex: number): Plan {
+    const remaining = plan.remaining.filter(other => other !== target);
+    const { state, distance, reason, probability } = this.interceptTarget(plan.vehicles[vehicleIndex], target);
+
+    const vehicles = plan.vehicles.slice();
+    vehicles[vehicleIndex] = state;
+
+    return {
+      vehicles,
+      remaining,
+      unreached: reason ? [...plan.unreached, { target, reason }] : plan.unreached,
+      totalDistance: plan.totalDistance + distance,
+      reward: plan.reward + probability * rewardOf(target),
     };
-    permute(futurePaths);
-
-
-    // now go through permutations and find the best route to take
-
-    let bestNumPointsReached = -Infinity;
-    let bestDistance = Infinity;
-    let bestPath = null; // the best path found so far
-
-    // now try find paths from depot to points, taking into account maximum distance
-    for (const permutation of permutations) {
-      const paths = []; // store the paths we find - will have more than one path if the maximum distance is exceeded
-      let totalDistance = 0; // total distance of all paths. Used to sort the results
-      let distanceElapsed = 0; // distance of the current path
-
-      let activePath: Array<[number, number]> = [[depotLon, depotLat]]; // path to build up - starts at depot
-      let lastPosition = activePath[0];
-
-      // iterate over each path in the permutation (path of [lon, lat])
-      for (const predictedPath of permutation) {
-        // find the interception point to the path from the last vehicle intercept
-        const interceptPoint = this.findLineIntercept(
-          lastPosition,
-          distanceElapsed / vehicleSpeedDeg,
-          vehicleSpeedDeg,
-          predictedPath,
-        );
-
-        // if the point cannot be reached, move on to the next point
-        if (typeof interceptPoint === 'undefined') {
-          continue;
-        }
-
-        // distance from the last point to the predicted point
-        // if the distance to the point from the last point and then back to the depot
-        // is too great, then return to the depot immediately and start a new route
-        const pointDistance = getDistance(lastPosition, interceptPoint, { units: 'degrees' });
-        const distanceBackToDepot = getDistance(interceptPoint, [depotLon, depotLat], { units: 'degrees' });
-
-        // if the distance + the distance back to depot exceeds max distance, return to depot and exclude point
-        if (distanceElapsed + pointDistance + distanceBackToDepot > maxRouteDistanceDeg) {
-          // end this path
-          activePath.push([depotLon, depotLat]);
-          paths.push(activePath);
-          // add the distance from the last feasible point back to the depot
-          totalDistance += getDistance(lastPosition, [depotLon, depotLat], { units: 'degrees' });
-
-          // create a new path
-          // first we need to find the intercept from the depot to the new point at elapsed = 0
-          const newInterceptPoint = this.findLineIntercept(
-            [depotLon, depotLat],
-            0,
-            vehicleSpeedDeg,
-            predictedPath,
-          );
-
-          if (typeof newInterceptPoint === 'undefined') {
-            continue;
-          }
-
-          // create the active path
-          activePath = [[depotLon, depotLat], newInterceptPoint];
-          // add the distance from the depot to the new intercept
-          const distanceDepotToNewIntercept = getDistance([depotLon, depotLat], newInterceptPoint, { units: 'degrees' });
-          lastPosition = newInterceptPoint;
-          distanceElapsed = distanceDepotToNewIntercept;
-          totalDistance += distanceDepotToNewIntercept;
-        }
-        // otherwise, simply add the intercept point
-        else {
-          activePath.push(interceptPoint);
-          lastPosition = interceptPoint;
-          distanceElapsed += pointDistance;
-          totalDistance += pointDistance;
-        }
+  }
+
+  /**
+   * Tries to intercept a target next with a vehicle
+   * @param state The vehicle's plan so far
+   * @param target The target to intercept
+   * @returns The vehicle's new plan, the extra distance travelled, why the target wasn't intercepted (if it wasn't) and the probability of meeting it
+   */
+  private interceptTarget(state: VehicleState, target: TargetPath): { state: VehicleState, distance: number, reason?: UnreachedReason, probability: number } {
+    const { vehicle, active } = state;
+    const lastPosition = active.path[active.path.length - 1];
+
+    // find the interception point to the path from the last vehicle intercept
+    const interception = this.findTargetIntercept(
+      lastPosition,
+      active.startTime + active.time,
+      this.toDegrees(vehicle.speed),
+      target,
+    );
+
+    // if the point cannot be reached (in time), move on to the next point
+    if (typeof interception === 'undefined') {
+      return { state, distance: 0, reason: 'no intercept', probability: 0 };
+    }
+    if (isLate(target, active.startTime + active.time + interception.time)) {
+      return { state, distance: 0, reason: 'after deadline', probability: 0 };
+    }
+    const interceptPoint = interception.position;
+
+    // distance from the last point to the predicted point
+    // if the distance to the point from the last point and then back to the depot
+    // is too great, then return to the depot immediately and start a new route
+    const pointDistance = this.legCost(vehicle, lastPosition, interceptPoint, active.startTime + active.time);
+
+    // the vehicle hovers until the target arrives, stays with the target, and must still have the endurance and energy to get back
+    const departureTime = active.time + interception.time + this.serviceDurationOf(target);
+    const hoverTime = this.waitTime(vehicle, lastPosition, interception, active.startTime + active.time) + this.serviceDurationOf(target);
+    const energy = active.energy + this.legEnergy(vehicle, pointDistance, hoverTime);
+    const returnLeg = this.findReturnLeg(vehicle, interceptPoint, active.startTime + departureTime);
+    const withinEndurance = departureTime + returnLeg.time <= enduranceOf(vehicle);
+    const withinEnergy = energy + this.legEnergy(vehicle, returnLeg.distance, 0) <= energyOf(vehicle);
+
+    // otherwise, simply add the intercept point
+    if (active.distance + pointDistance + returnLeg.distance <= vehicle.maxRouteDistance && withinEndurance && withinEnergy) {
+      return {
+        state: {
+          ...state,
+          active: {
+            path: [...active.path, interceptPoint],
+            targets: [...active.targets, target],
+            times: [...active.times, active.time + interception.time],
+            distances: [...active.distances, active.distance + pointDistance],
+            probabilities: [...active.probabilities, interception.probability],
+            energies: [...active.energies, energy],
+            distance: active.distance + pointDistance,
+            energy,
+            startTime: active.startTime,
+            time: departureTime,
+          },
+        },
+        distance: pointDistance,
+        probability: interception.probability,
+      };
+    }
+
+    // if the distance + the distance back to depot exceeds max distance (or endurance or energy), return to depot and exclude point
+    const returned = this.endSortie(state);
+    const returnDistance = returned === state ? 0 : returned.sorties[returned.sorties.length - 1].distance - active.distance;
+
+    // a vehicle that can't get back to its depot can't start another sortie
+    if (!isFinite(returnDistance) || !isFinite(returned.active.startTime)) {
+      return { state, distance: 0, reason: 'out of range', probability: 0 };
+    }
+
+    // create a new path
+    // first we need to find the intercept from the depot to the new point once the vehicle is ready again
+    const startTime = returned.active.startTime;
+    const depot = returned.active.path[0];
+    const newInterception = this.findTargetIntercept(
+      depot,
+      startTime,
+      this.toDegrees(vehicle.speed),
+      target,
+    );
+
+    if (typeof newInterception === 'undefined') {
+      return { state: returned, distance: returnDistance, reason: 'no intercept', probability: 0 };
+    }
+    if (isLate(target, startTime + newInterception.time)) {
+      return { state: returned, distance: returnDistance, reason: 'after deadline', probability: 0 };
+    }
+    const newInterceptPoint = newInterception.position;
+
+    // add the distance from the depot to the new intercept.
+    // the vehicle must still have the range, endurance and energy to get back to its depot afterwards
+    const distanceDepotToNewIntercept = this.legCost(vehicle, depot, newInterceptPoint, startTime);
+    const newDepartureTime = newInterception.time + this.serviceDurationOf(target);
+    const newHoverTime = this.waitTime(vehicle, depot, newInterception, startTime) + this.serviceDurationOf(target);
+    const newEnergy = this.legEnergy(vehicle, distanceDepotToNewIntercept, newHoverTime);
+    const newReturnLeg = this.findReturnLeg(vehicle, newInterceptPoint, startTime + newDepartureTime);
+    if (!(distanceDepotToNewIntercept + newReturnLeg.distance <= vehicle.maxRouteDistance) ||
+      !(newDepartureTime + newReturnLeg.time <= enduranceOf(vehicle)) ||
+      !(newEnergy + this.legEnergy(vehicle, newReturnLeg.distance, 0) <= energyOf(vehicle))) {
+      return { state: returned, distance: returnDistance, reason: 'out of range', probability: 0 };
+    }
+
+    return {
+      state: {
+        ...returned,
+        active: {
+          path: [depot, newInterceptPoint],
+          targets: [target],
+          times: [newInterception.time],
+          distances: [distanceDepotToNewIntercept],
+          probabilities: [newInterception.probability],
+          energies: [newEnergy],
+          distance: distanceDepotToNewIntercept,
+          energy: newEnergy,
+          startTime,
+          time: newDepartureTime,
+        },
+      },
+      distance: returnDistance + distanceDepotToNewIntercept,
+      probability: newInterception.probability,
+    };
+  }
+
+  /**
+   * Returns a vehicle to its depot, ending the active sortie.
+   * Sorties that haven't intercepted anything are discarded, and the vehicle
+   * stays ready to leave
+   * @param state
+   */
+  private endSortie(state: VehicleState): VehicleState {
+    const { vehicle, active } = state;
+    if (!active.targets.length) {
+      return state;
+    }
+
+    const returnLeg = this.findReturnLeg(vehicle, active.path[active.path.length - 1], active.startTime + active.time);
+    return {
+      ...state,
+      sorties: [...state.sorties, {
+        path: [...active.path, returnLeg.position],
+        targets: active.targets,
+        times: active.times,
+        distances: active.distances,
+        probabilities: active.probabilities,
+        energies: active.energies,
+        distance: active.distance + returnLeg.distance,
+        energy: active.energy + this.legEnergy(vehicle, returnLeg.distance, 0),
+        startTime: active.startTime,
+        time: active.time + returnLeg.time,
+      }],
+      // the next sortie starts once the vehicle is back and has been turned around
+      active: this.createSortie(vehicle, active.startTime + active.time + returnLeg.time + (vehicle.turnaroundTime || 0)),
+    };
+  }
+
+  /**
+   * Ends the last sortie of each vehicle and removes sorties that are too
+   * long (in distance, time or energy) for the vehicle, marking their targets as out of range
+   * @param plan
+   */
+  private finishPlan(plan: Plan): Plan {
+    // targets left over when no vehicle can move
+    const unreached = [...plan.unreached, ...plan.remaining.map(target => ({ target, reason: 'no intercept' as UnreachedReason }))];
+    let totalDistance = plan.totalDistance;
+
+    const vehicles = plan.vehicles.map(state => {
+      const ended = this.endSortie(state);
+      if (ended !== state) {
+        totalDistance += ended.sorties[ended.sorties.length - 1].distance - state.active.distance;
       }
 
-      // if the last path did not exceed the maximum distance, add it
-      if (paths.indexOf(activePath) === -1 && activePath.length > 1) {
-        activePath.push([depotLon, depotLat]);
-        paths.push(activePath);
+      const sorties = ended.sorties.filter(sortie =>
+        sortie.distance <= state.vehicle.maxRouteDistance &&
+        sortie.time <= enduranceOf(state.vehicle) &&
+        sortie.energy <= energyOf(state.vehicle)
+      );
+      ended.sorties
+        .filter(sortie => sorties.indexOf(sortie) === -1)
+        .forEach(sortie => unreached.push(...sortie.targets.map(target => ({ target, reason: 'out of range' as UnreachedReason }))));
+
+      return { ...ended, sorties };
+    });
+
+    return {
+      ...plan,
+      vehicles,
+      remaining: [],
+      unreached,
+      totalDistance,
+      reward: vehicles.reduce((total, state) => total + state.sorties.reduce((sum, sortie) => sum + sortieReward(sortie), 0), 0),
+    };
+  }
+
+  /**
+   * Creates an empty sortie starting at the vehicle's depot
+   * @param vehicle
+   * @param startTime Time (in seconds from the start of planning) the sortie starts
+   */
+  private createSortie(vehicle: InterceptorVehicle, startTime = 0): Sortie {
+    return {
+      path: [this.depotAt(vehicle, startTime)],
+      targets: [],
+      times: [],
+      distances: [],
+      probabilities: [],
+      energies: [],
+      distance: 0,
+      energy: 0,
+      startTime,
+      time: 0,
+    };
+  }
+
+  /**
+   * Where a vehicle's depot is at a time
+   * @param vehicle
+   * @param time Time in seconds from the start of planning
+   */
+  private depotAt(vehicle: InterceptorVehicle, time: number): [number, number] {
+    const base = vehicle.depot;
+    if (Array.isArray(base)) {
+      return base;
+    }
+
+    const trajectory = this.baseTrajectoryOf(base);
+    return positionAt(trajectory, time) || trajectory[0].start;
+  }
+
+  /**
+   * Finds how a vehicle gets back to its depot. A moving depot is
+   * intercepted like a target
+   * @param vehicle
+   * @param from Where the vehicle leaves from
+   * @param time Time (in seconds from the start of planning) the vehicle leaves
+   * @returns Where the vehicle meets the depot, and the distance and time (in seconds) to get there.
+   * The distance and time are Infinity if the vehicle can't catch up with its depot
+   */
+  private findReturnLeg(vehicle: InterceptorVehicle, from: [number, number], time: number): { position: [number, number], distance: number, time: number } {
+    const base = vehicle.depot;
+    if (Array.isArray(base)) {
+      return { position: base, distance: this.legCost(vehicle, from, base, time), time: this.flightTime(from, base, vehicle, time) };
+    }
+
+    const rendezvous = this.findLineIntercept(from, time, this.toDegrees(vehicle.speed), this.baseTrajectoryOf(base));
+    if (typeof rendezvous === 'undefined') {
+      return { position: from, distance: Infinity, time: Infinity };
+    }
+    return { position: rendezvous.position, distance: this.legCost(vehicle, from, rendezvous.position, time), time: rendezvous.time };
+  }
+
+  /**
+   * Creates a solution from the chosen plan, summarising it
+   * @param plan
+   * @param targets Targets given to the solver
+   */
+  private createSolution(plan: Plan, targets: TargetPath[]): PredictiveSolution {
+    const numTargets = targets.length;
+    const vehicles = plan.vehicles.map(state => ({
+      vehicle: state.vehicle,
+      routes: state.sorties.map(sortie => this.toSolutionRoute(sortie, state.vehicle, targets)),
+    }));
+    const routes = vehicles.reduce((all: PredictiveRoute[], vehiclePlan) => all.concat(vehiclePlan.routes), []);
+
+    return {
+      routes,
+      vehicles,
+      unreachedTargets: plan.unreached,
+      statistics: {
+        targets: numTargets,
+        reachedTargets: numTargets - plan.unreached.length,
+        expectedReachedTargets: routes.reduce((total, route) => total + route.stops.reduce((sum, stop) => sum + stop.probability, 0), 0),
+        expectedReward: plan.reward,
+        unreachedTargets: plan.unreached.length,
+        routes: routes.length,
+        totalDistance: routes.reduce((sum, route) => sum + route.distance, 0),
+      },
+    };
+  }
+
+  /**
+   * Converts a sortie into a route for the solution, working out when
+   * and where each target is intercepted
+   * @param sortie
+   * @param vehicle The vehicle flying the sortie
+   * @param targets Targets given to the solver
+   */
+  private toSolutionRoute(sortie: Sortie, vehicle: InterceptorVehicle, targets: TargetPath[]): PredictiveRoute {
+    const stops = sortie.targets.map((target, index) => {
+      // the path starts at the depot, so the intercept of target i is at i + 1
+      const position = sortie.path[index + 1];
+      const distance = sortie.distances[index];
+
+      const departureTime = sortie.times[index] + this.serviceDurationOf(target);
+      return {
+        position,
+        targetIndex: targets.indexOf(target),
+        time: sortie.startTime + sortie.times[index],
+        departureTime: sortie.startTime + departureTime,
+        distance,
+        remainingRange: vehicle.maxRouteDistance - distance,
+        remainingEndurance: enduranceOf(vehicle) - departureTime,
+        remainingEnergy: energyOf(vehicle) - sortie.energies[index],
+        probability: sortie.probabilities[index],
+      };
+    });
+
+    // each leg starts when the vehicle leaves the depot or a target
+    const departures = [sortie.startTime, ...stops.map(stop => stop.departureTime)];
+    const path = sortie.path.reduce((flown: Array<[number, number]>, point, index) => {
+      if (index === 0) {
+        return [point];
       }
+      const leg = this.legPath(vehicle, sortie.path[index - 1], point, departures[index - 1]) || [sortie.path[index - 1], point];
+      return [...flown, ...leg.slice(1)];
+    }, []);
 
-      const feasiblePaths = this.filterFeasibleRoutes(paths, maxRouteDistanceDeg);
-
-      const numPointsReached = feasiblePaths.reduce((total, route) => {
-        return total + route.length - 2; // - 2 to exclude depots
-      }, 0);
-
-      // determine whether to set as the best path - if it visits more points, then it is better
-      if (
-        bestPath === null || // no best path set yet
-        numPointsReached > bestNumPointsReached || // reaches more points so it has to be better
-        (numPointsReached === bestNumPointsReached && totalDistance < bestDistance) // reaches same number of points but lower distance
-      ) {
-        bestPath = feasiblePaths;
-        bestDistance = totalDistance;
-        bestNumPointsReached = numPointsReached;
+    return {
+      points: sortie.path,
+      path,
+      stops,
+      distance: sortie.distance,
+      energy: sortie.energy,
+      startTime: sortie.startTime,
+      duration: sortie.time,
+      vehicle,
+    };
+  }
+
+  /**
+   * Finds the intercept most likely to meet a target. Each path the target
+   * might take is intercepted, and the interception with the highest
+   * probability of meeting the target is chosen. Interceptions with no
+   * chance of meeting the target don't count
+   * @param vehiclePosition
+   * @param timeElapsed How much time (in seconds) the target has moved for
+   * @param vehicleSpeedDeg Vehicle speed in degrees per second
+   * @param target
+   */
+  private findTargetIntercept(vehiclePosition: [number, number], timeElapsed: number, vehicleSpeedDeg: number, target: TargetPath): LikelyInterception | undefined {
+    const paths = [target, ...(target.alternatives || [])];
+    const certain = paths.length === 1 && !target.positionError && !target.errorGrowth;
+
+    let best: LikelyInterception | undefined;
+    for (const path of paths) {
+      const interception = this.findLineIntercept(vehiclePosition, timeElapsed, vehicleSpeedDeg, this.trajectoryOf(path));
+      if (typeof interception === 'undefined') {
+        continue;
+      }
+
+      const probability = certain ? 1 : this.meetingProbability(paths, interception.position, timeElapsed + interception.time);
+      if (probability <= 0) {
+        continue;
+      }
+      if (!best || probability > best.probability || (probability === best.probability && interception.time < best.time)) {
+        best = { ...interception, probability };
       }
     }
 
-    return bestPath;
+    return best;
   }
 
   /**
-   * Filers feasibly routes by ensuring that they aren't only between the depot back to itself
-   * and that they are within the maximum route distance of the vehicle.
-   * @param paths 
-   * @param maxRouteDistanceDeg 
+   * Probability of meeting a target at a position and time, given the paths
+   * it might take and how uncertain they are
+   * @param paths The target's path and its alternatives
+   * @param position
+   * @param time Time in seconds
    */
-  private filterFeasibleRoutes(paths: Array<Array<[number, number]>>, maxRouteDistanceDeg: number) {
-    return paths.filter(route => {
-      if (route.length <= 2) {
-        // if it's only depot to depot, don't count it
-        return false;
-      }
+  private meetingProbability(paths: TargetPath[], position: [number, number], time: number) {
+    const weights = paths.map(path => typeof path.weight === 'number' ? path.weight : 1);
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    const radius = this.toDegrees(this.detectionRadius);
 
-      const routeDistance = route.reduce((sum, point, index) => {
-        if (index === route.length - 1) {
-          return sum;
-        }
-        const pointDistance = getDistance(point, route[index + 1], { units: 'degrees' });
-        return sum + pointDistance;
-      }, 0);
+    return paths.reduce((total, path, index) => {
+      const predicted = positionAt(this.trajectoryOf(path), time);
+      if (!predicted || totalWeight <= 0) {
+        return total;
+      }
 
-      return routeDistance < maxRouteDistanceDeg;
-    });
+      const sigma = this.toDegrees((path.positionError || 0) + (path.errorGrowth || 0) * time);
+      const offset = getDistance(position, predicted, { units: 'degrees' });
+      return total + weights[index] / totalWeight * detectionProbability(offset, sigma, radius);
+    }, 0);
   }
 
   /**
-   * Find the intercept between a line and the vehicle given a time offset.
-   * To calculate the intercept, we treat the path the target goes on
-   * as multiple lines. Each of these lines is tested for an intersection
-   * point. If there is no intersection point, it tests the next line
-   * segment in the path.
+   * Find the intercept between a target's trajectory and the vehicle given a
+   * time offset. To calculate the intercept, we treat the trajectory as
+   * multiple lines, each travelled at a constant speed. Each of these lines
+   * is tested for an intersection point. If there is no intersection point,
+   * it tests the next line segment in the trajectory.
    *
    * We find the intercept as follows:
    * We know where the target line starting point is and what its direction
    * is and its velocity.
    * We also know where the vehicle starts and what its velocity is. We treat
-   * the area the vehicle can reach as a circle.
+   * the area the vehicle can reach as a circle, on a map projection centred
+   * on the vehicle so that it matches great circle distances.
    * We then find the intercept between the circle and the target's path.
+   * If the vehicle has to detour around obstacles, the intercept is then
+   * moved later along the trajectory until the vehicle can get there in time.
    * @param vehiclePosition 
-   * @param timeElapsed 
-   * @param vehicleSpeedDeg 
-   * @param targetSpeedDeg 
-   * @param targetPositions 
-   */
-  private findLineIntercept(vehiclePosition: [number, number], timeElapsed: number, vehicleSpeedDeg: number, targetPath: TargetPath): [number, number] | undefined {
-    // remove parts of the path the target has already moved along
-    const lines = this.trimTargetPath(timeElapsed, targetPath);
-
-    // account for any error with trimming the line
-    if (typeof lines === 'undefined') {
-      return undefined;
+   * @param timeElapsed How much time (in seconds) the target has moved for
+   * @param vehicleSpeedDeg Vehicle speed (through the air) in degrees per second
+   * @param trajectory The target's trajectory
+   * @returns The interception point and how long (in seconds) until the vehicle is there with the target
+   */
+  private findLineIntercept(vehiclePosition: [number, number], timeElapsed: number, vehicleSpeedDeg: number, trajectory: TrajectorySegment[]): TargetInterception | undefined {
+    const interception = this.findDirectIntercept(vehiclePosition, timeElapsed, vehicleSpeedDeg, trajectory);
+    if (typeof interception === 'undefined' || !this.obstacles) {
+      return interception;
     }
+    return this.findDetourIntercept(vehiclePosition, timeElapsed, vehicleSpeedDeg, trajectory, interception);
+  }
+
+  /**
+   * Finds the intercept between a target's trajectory and a vehicle flying
+   * straight to it, ignoring any obstacles
+   * @param vehiclePosition
+   * @param timeElapsed How much time (in seconds) the target has moved for
+   * @param vehicleSpeedDeg Vehicle speed (through the air) in degrees per second
+   * @param trajectory The target's trajectory
+   */
+  private findDirectIntercept(vehiclePosition: [number, number], timeElapsed: number, vehicleSpeedDeg: number, trajectory: TrajectorySegment[]): TargetInterception | undefined {
+    // the wind where the vehicle sets off is assumed to hold until it gets there
+    const wind = this.windAt(vehiclePosition, timeElapsed);
+
+    for (const segment of trajectory) {
+      // skip parts of the trajectory the target has already moved along
+      if (segment.endTime < timeElapsed) {
+        continue;
+      }
+
+      // times from now that the target starts and finishes the segment
+      const segmentStart = segment.startTime - timeElapsed;
+      const segmentEnd = segment.endTime - timeElapsed;
+
+      // if the vehicle gets to the start of the segment first, it waits for the target there
+      if (segmentStart >= 0 && this.travelTime(vehiclePosition, segment.start, vehicleSpeedDeg, wind) <= segmentStart) {
+        return { position: segment.start, time: segmentStart };
+      }
 
-    let elapsedDistance = 0;
-    for (const line of lines) {
-      const interception = findTargetLineInterception(
-        line,
-        targetPath.speed,
+      // a negative time delay means the target is already part way along the segment
+      const interception = findGeodesicInterception(
+        [segment.start, segment.end],
+        segment.speed,
         vehiclePosition,
         vehicleSpeedDeg,
-        elapsedDistance / targetPath.speed, // time delay of how long the target has moved
+        segmentStart,
+        wind,
       );
 
-      // check that the intercept point is actually on the line
-      const lineDistance = getDistance(line[0], line[1], { units: 'degrees' });
-      const interceptionDistance = getDistance(line[0], [interception.getX(), interception.getY()], { units: 'degrees' });
-
-      elapsedDistance += lineDistance;
-
-      // if the point isn't on the line, then try the next line segment
-      if (interceptionDistance > lineDistance) {
+      // if there is no interception, or the target isn't on the line at the
+      // interception time, then try the next line segment
+      if (!interception || interception.time < segmentStart - TIME_TOLERANCE || interception.time > segmentEnd + TIME_TOLERANCE) {
         continue;
       }
 
-      // if the point is on the line, then return the interception point
-      return [interception.getX(), interception.getY()];
+      // if the point is on the line, then return the interception
+      return interception;
     }
 
     // no point was found so return undefined
@@ -224,41 +898,375 @@ export class PredictiveSolver {
   }
 
   /**
-    * Trims a target path by removing the parts it has already travelled along
-    * @param timeElapsed How much time (in seconds) the target has moved for
-    * @param targetPath The target path
-    */
-  private trimTargetPath(timeElapsed: number, targetPath: TargetPath) {
-    // how far the target has travelled
-    const targetDistanceTravelled = timeElapsed * targetPath.speed;
-  
-    // trim the path to remove parts of the path the target has already moved along
-    try {
-      var offsetLine = lineSliceAlong(
-        lineString(targetPath.positions),
-        targetDistanceTravelled,
-        Infinity,
-        { units: 'degrees' },
-      );
-    } catch (err) {
-      console.error('line error', err);
-      return undefined;
+   * Finds where a vehicle meets a target when it has to detour around
+   * obstacles. Detours only make the vehicle slower, so the direct intercept
+   * is the earliest guess. Each guess is moved to where the target is by the
+   * time the vehicle could get to the last guess, until the vehicle gets
+   * there in time
+   * @param vehiclePosition
+   * @param timeElapsed How much time (in seconds) the target has moved for
+   * @param vehicleSpeedDeg Vehicle speed (through the air) in degrees per second
+   * @param trajectory The target's trajectory
+   * @param direct The direct intercept
+   */
+  private findDetourIntercept(
+    vehiclePosition: [number, number],
+    timeElapsed: number,
+    vehicleSpeedDeg: number,
+    trajectory: TrajectorySegment[],
+    direct: TargetInterception,
+  ): TargetInterception | undefined {
+    const obstacles = this.obstacles as VisibilityGraph;
+    const wind = this.windAt(vehiclePosition, timeElapsed);
+    let { position, time } = direct;
+
+    for (let iteration = 0; iteration < MAX_DETOUR_ITERATIONS; iteration++) {
+      const detour = obstacles.findPath(vehiclePosition, position, (from, to) => this.travelTime(from, to, vehicleSpeedDeg, wind));
+      if (!detour || detour.cost === Infinity) {
+        return undefined;
+      }
+
+      // the vehicle gets there first, and waits for the target
+      if (detour.cost <= time + TIME_TOLERANCE) {
+        return { position, time };
+      }
+
+      time = detour.cost;
+      const next = positionAt(trajectory, timeElapsed + time);
+      if (!next) {
+        return undefined;
+      }
+      position = next;
     }
-  
-    // if the resulting lineString is empty, no intercept can be found
-    if (!offsetLine.geometry || !offsetLine.geometry.coordinates) {
-      return undefined;
+
+    return undefined;
+  }
+
+  /**
+   * The segments of a target's trajectory, in degrees
+   * @param targetPath
+   */
+  private trajectoryOf(targetPath: TargetPath) {
+    let trajectory = this.trajectories.get(targetPath);
+    if (!trajectory) {
+      trajectory = createTrajectory(targetPath, length => this.toDegrees(length));
+      this.trajectories.set(targetPath, trajectory);
     }
-  
-    const points: Array<[number, number]> = offsetLine.geometry.coordinates as Array<[number, number]>;
-  
-    // convert points into a line of point pairs
-    return points.reduce((lineAcc: Array<[[number, number], [number, number]]>, point, pointIndex) => {
-      if (pointIndex === points.length - 1) {
-        return lineAcc;
+    return trajectory;
+  }
+
+  /**
+   * The segments of a moving depot's trajectory, in degrees. The depot
+   * waits at the end of its path
+   * @param base A path with at least one position
+   */
+  private baseTrajectoryOf(base: TargetPath) {
+    let trajectory = this.baseTrajectories.get(base);
+    if (!trajectory) {
+      trajectory = this.trajectoryOf(base).slice();
+      const last = trajectory[trajectory.length - 1];
+      if (!last) {
+        // e.g. a single timestamped position, which the depot never leaves
+        const first = base.positions[0];
+        trajectory.push({ start: [first[0], first[1]], end: [first[0], first[1]], startTime: 0, endTime: Infinity, speed: 0 });
+      } else if (last.endTime !== Infinity) {
+        trajectory.push({ start: last.end, end: last.end, startTime: last.endTime, endTime: Infinity, speed: 0 });
       }
-      lineAcc.push([point, points[pointIndex + 1]]);
-      return lineAcc;
-    }, []);
+      this.baseTrajectories.set(base, trajectory);
+    }
+    return trajectory;
+  }
+
+  /**
+   * Time (in seconds) a vehicle stays with a target
+   * @param target
+   */
+  private serviceDurationOf(target: TargetPath) {
+    return typeof target.serviceDuration === 'number' ? target.serviceDuration : this.serviceDuration;
+  }
+
+  /**
+   * Energy a vehicle uses flying a leg and then staying with a target
+   * @param vehicle
+   * @param distance Distance of the leg
+   * @param serviceDuration Time (in seconds) spent with the target at the end of the leg
+   */
+  private legEnergy(vehicle: InterceptorVehicle, distance: number, serviceDuration: number) {
+    return this.energyModel.getEnergy(distance, vehicle.payload || 0, serviceDuration);
   }
+
+  /**
+   * Time (in seconds) a vehicle hovers at an interception, waiting for a
+   * target it gets to first
+   * @param vehicle
+   * @param from Where the vehicle sets off from
+   * @param interception
+   * @param time Time (in seconds from the start of planning) the vehicle sets off
+   */
+  private waitTime(vehicle: InterceptorVehicle, from: [number, number], interception: TargetInterception, time: number) {
+    return Math.max(0, interception.time - this.flightTime(from, interception.position, vehicle, time));
+  }
+
+  /**
+   * Time (in seconds) for a vehicle to fly between two positions, around any obstacles
+   * @param from
+   * @param to
+   * @param vehicle
+   * @param time Time (in seconds from the start of planning) the vehicle sets off
+   */
+  private flightTime(from: [number, number], to: [number, number], vehicle: InterceptorVehicle, time: number) {
+    const path = this.legPath(vehicle, from, to, time);
+    if (!path) {
+      return Infinity;
+    }
+
+    const speed = this.toDegrees(vehicle.speed);
+    const wind = this.windAt(from, time);
+    return path.slice(1).reduce((total, position, index) => total + this.travelTime(path[index], position, speed, wind), 0);
+  }
+
+  /**
+   * Time (in seconds) to fly directly between two positions at a speed through the air
+   * @param from
+   * @param to
+   * @param airSpeedDeg Speed through the air in degrees per second
+   * @param wind Wind velocity [east, north] in degrees per second
+   * @returns The time, or Infinity if the wind is too strong to make progress
+   */
+  private travelTime(from: [number, number], to: [number, number], airSpeedDeg: number, wind: [number, number]) {
+    const distance = getDistance(from, to, { units: 'degrees' });
+    if (distance === 0) {
+      return 0;
+    }
+
+    const speed = groundSpeed(airSpeedDeg, wind, trackBetween(from, to));
+    return speed > 0 ? distance / speed : Infinity;
+  }
+
+  /**
+   * Wind velocity [east, north] in degrees per second
+   * @param position
+   * @param time Time in seconds from the start of planning
+   */
+  private windAt(position: [number, number], time: number): [number, number] {
+    if (!this.wind) {
+      return [0, 0];
+    }
+
+    // wind components are signed, but lengths can only be converted when positive
+    const wind = this.wind.getWind(position, time);
+    return [
+      Math.sign(wind[0]) * this.toDegrees(Math.abs(wind[0])),
+      Math.sign(wind[1]) * this.toDegrees(Math.abs(wind[1])),
+    ];
+  }
+
+  /**
+   * Cost of a leg for a vehicle, used to check its range. In wind, this is
+   * the distance flown through the air
+   * @param vehicle
+   * @param from
+   * @param to
+   * @param time Time (in seconds from the start of planning) the vehicle sets off
+   * @returns The cost, or Infinity if there is no way around the obstacles
+   */
+  private legCost(vehicle: InterceptorVehicle, from: [number, number], to: [number, number], time: number) {
+    const path = this.legPath(vehicle, from, to, time);
+    if (!path) {
+      return Infinity;
+    }
+    return path.slice(1).reduce((total, position, index) => total + this.straightLegCost(vehicle, path[index], position, time), 0);
+  }
+
+  /**
+   * Positions a vehicle flies through between two positions, turning at
+   * obstacle corners to take the cheapest way around them
+   * @param vehicle
+   * @param from
+   * @param to
+   * @param time Time (in seconds from the start of planning) the vehicle sets off
+   * @returns The path, or undefined if there is no way around the obstacles
+   */
+  private legPath(vehicle: InterceptorVehicle, from: [number, number], to: [number, number], time: number): Array<[number, number]> | undefined {
+    if (!this.obstacles) {
+      return [from, to];
+    }
+
+    const detour = this.obstacles.findPath(from, to, (a, b) => this.straightLegCost(vehicle, a, b, time));
+    return detour && detour.path;
+  }
+
+  /**
+   * Cost of flying in a straight line between two positions
+   * @param vehicle
+   * @param from
+   * @param to
+   * @param time Time (in seconds from the start of planning) the vehicle sets off
+   */
+  private straightLegCost(vehicle: InterceptorVehicle, from: [number, number], to: [number, number], time: number) {
+    if (!this.wind) {
+      return this.costProvider.getCost(from, to, time);
+    }
+
+    let costProvider = this.vehicleCostProviders.get(vehicle);
+    if (!costProvider) {
+      costProvider = new WindCostProvider(this.wind, vehicle.speed, this.costProvider);
+      this.vehicleCostProviders.set(vehicle, costProvider);
+    }
+    return costProvider.getCost(from, to, time);
+  }
+
+  /**
+   * Converts a length (or speed) in the solver units into degrees
+   * @param length
+   */
+  private toDegrees(length: number) {
+    return convertLength(length, this.units, 'degrees');
+  }
+}
+
+/**
+ * Leeway (in seconds) when checking an interception happens while the
+ * target is on a line segment
+ */
+const TIME_TOLERANCE = 1e-6;
+
+/**
+ * Most times an interception is moved along the target's trajectory to
+ * make up for detours around obstacles
+ */
+const MAX_DETOUR_ITERATIONS = 100;
+
+/**
+ * A single trip from the depot
+ */
+interface Sortie {
+  /** Positions from the depot through each intercept point */
+  path: Array<[number, number]>;
+
+  /** Targets intercepted, in the order of the path */
+  targets: TargetPath[];
+
+  /** Time (in seconds after leaving the depot) of each interception */
+  times: number[];
+
+  /** Distance travelled up to each interception */
+  distances: number[];
+
+  /** Probability of meeting each target */
+  probabilities: number[];
+
+  /** Energy used by the time the vehicle leaves each target */
+  energies: number[];
+
+  /** Distance travelled along the path */
+  distance: number;
+
+  /** Energy used along the path */
+  energy: number;
+
+  /** Time (in seconds from the start of planning) the vehicle leaves the depot */
+  startTime: number;
+
+  /** Time (in seconds) since leaving the depot, including any waiting for and staying with targets */
+  time: number;
+}
+
+/**
+ * The sorties of a single vehicle
+ */
+interface VehicleState {
+  vehicle: InterceptorVehicle;
+
+  /** Sorties that have returned to the depot */
+  sorties: Sortie[];
+
+  /** Sortie the vehicle is currently on */
+  active: Sortie;
+}
+
+/**
+ * An interception and the probability it actually meets the target
+ */
+interface LikelyInterception extends TargetInterception {
+  probability: number;
+}
+
+/**
+ * A (partial) plan for intercepting the targets
+ */
+interface Plan {
+  /** Sorties of each vehicle */
+  vehicles: VehicleState[];
+
+  /** Targets that couldn't be intercepted */
+  unreached: UnreachedTarget[];
+
+  /** Targets that haven't been tried yet */
+  remaining: TargetPath[];
+
+  /** Total distance of all sorties. Used to sort the results */
+  totalDistance: number;
+
+  /** Expected reward collected. Used to sort the results */
+  reward: number;
+}
+
+/**
+ * Plans that are expected to collect more reward are better. If they collect
+ * the same reward, the one with the lower distance is better
+ * @param a
+ * @param b
+ */
+function comparePlans(a: Plan, b: Plan) {
+  return b.reward - a.reward || a.totalDistance - b.totalDistance;
+}
+
+/**
+ * Reward for intercepting a target
+ * @param target
+ */
+function rewardOf(target: TargetPath) {
+  return typeof target.reward === 'number' ? target.reward : 1;
+}
+
+/**
+ * Expected reward collected by a sortie
+ * @param sortie
+ */
+function sortieReward(sortie: Sortie) {
+  return sortie.targets.reduce((total, target, index) => total + sortie.probabilities[index] * rewardOf(target), 0);
+}
+
+/**
+ * Maximum time (in seconds) of a vehicle's sortie
+ * @param vehicle
+ */
+function enduranceOf(vehicle: InterceptorVehicle) {
+  return typeof vehicle.endurance === 'number' ? vehicle.endurance : Infinity;
+}
+
+/**
+ * Energy a vehicle has for a sortie
+ * @param vehicle
+ */
+function energyOf(vehicle: InterceptorVehicle) {
+  return typeof vehicle.energy === 'number' ? vehicle.energy : Infinity;
+}
+
+/**
+ * Whether a target's position is uncertain or it might take other paths
+ * @param target
+ */
+function isUncertain(target: TargetPath) {
+  return !!(target.positionError || target.errorGrowth || (target.alternatives && target.alternatives.length));
+}
+
+/**
+ * Whether an interception is after the target's deadline
+ * @param target
+ * @param time Time (in seconds) of the interception
+ */
+function isLate(target: TargetPath, time: number) {
+  return typeof target.deadline === 'number' && time > target.deadline;
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import getDistance from '@turf/distance';
+import { createAzimuthalEquidistant } from './projection';
+
+describe('createAzimuthalEquidistant', () => {
+  const center: [number, number] = [10, 60];
+  const projection = createAzimuthalEquidistant(center);
+
+  it('keeps true distances from the centre', () => {
+    [[11, 60], [10, 61], [-20, 45], [170, 60]].forEach(position => {
+      const [x, y] = projection.project(position as [number, number]);
+
+      expect(Math.hypot(x, y)).toBeCloseTo(getDistance(center, position, { units: 'degrees' }), 6);
+    });
+  });
+
+  it('keeps bearings from the centre', () => {
+    const north = projection.project([10, 70]);
+    const east = projection.project([11, 60]);
+
+    expect(north[0]).toBeCloseTo(0);
+    expect(north[1]).toBeGreaterThan(0);
+    expect(east[0]).toBeGreaterThan(0);
+    expect(east[1]).toBeGreaterThan(0); // the great circle east bulges towards the pole
+  });
+
+  it('unprojects back to the same position', () => {
+    [[11, 60], [10, 61], [-20, 45], [170, 60], [10, 60]].forEach(position => {
+      const [lon, lat] = projection.unproject(projection.project(position as [number, number]));
+
+      expect(lon).toBeCloseTo(position[0], 6);
+      expect(lat).toBeCloseTo(position[1], 6);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { lengthToRadians, radiansToLength } from '@turf/helpers';
+
+/**
+ * Converts between [lon, lat] positions and a flat [x, y] frame
+ */
+export interface Projection {
+  /** Projects a [lon, lat] position to [x, y] (east, north) in degrees */
+  project(position: [number, number]): [number, number];
+
+  /** Converts a projected [x, y] position back to [lon, lat] */
+  unproject(point: [number, number]): [number, number];
+}
+
+/**
+ * Creates an azimuthal equidistant projection on a spherical earth.
+ * Distances and bearings from the centre are exact, and other distances
+ * are close to the great circle distance for points near the centre
+ * (well within a percent over tens of kilometers). Projected lengths are in
+ * the same degrees as @turf's distance, so they can be compared directly.
+ * @param center The centre of the projection [lon, lat]
+ */
+export function createAzimuthalEquidistant(center: [number, number]): Projection {
+  const lon0 = toRadians(center[0]);
+  const lat0 = toRadians(center[1]);
+  const sinLat0 = Math.sin(lat0);
+  const cosLat0 = Math.cos(lat0);
+
+  return {
+    project(position) {
+      const lat = toRadians(position[1]);
+      const deltaLon = toRadians(position[0]) - lon0;
+      const cosC = sinLat0 * Math.sin(lat) + cosLat0 * Math.cos(lat) * Math.cos(deltaLon);
+
+      // angular distance from the centre
+      const c = Math.acos(Math.min(1, Math.max(-1, cosC)));
+      const k = c === 0 ? 1 : c / Math.sin(c);
+
+      const x = k * Math.cos(lat) * Math.sin(deltaLon);
+      const y = k * (cosLat0 * Math.sin(lat) - sinLat0 * Math.cos(lat) * Math.cos(deltaLon));
+      return [radiansToLength(x, 'degrees'), radiansToLength(y, 'degrees')];
+    },
+
+    unproject(point) {
+      const x = lengthToRadians(point[0], 'degrees');
+      const y = lengthToRadians(point[1], 'degrees');
+
+      // angular distance from the centre
+      const c = Math.sqrt(x * x + y * y);
+      if (c === 0) {
+        return [center[0], center[1]];
+      }
+
+      const lat = Math.asin(Math.cos(c) * sinLat0 + y * Math.sin(c) * cosLat0 / c);
+      const lon = lon0 + Math.atan2(x * Math.sin(c), c * cosLat0 * Math.cos(c) - y * sinLat0 * Math.sin(c));
+      return [normaliseLongitude(toDegrees(lon)), toDegrees(lat)];
+    },
+  };
+}
+
+/**
+ * Converts an angle from degrees to radians
+ * @param degrees
+ */
+function toRadians(degrees: number) {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * Converts an angle from radians to degrees
+ * @param radians
+ */
+function toDegrees(radians: number) {
+  return radians * 180 / Math.PI;
+}
+
+/**
+ * Wraps a longitude into [-180, 180)
+ * @param lon
+ */
+function normaliseLongitude(lon: number) {
+  return ((lon + 540) % 360) - 180;
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { SearchProblem, search } from './search';
+
+interface Tour {
+  position: number;
+  remaining: number[];
+  cost: number;
+}
+
+/**
+ * Visiting every stop on a line, starting at 0. Always going to the closest
+ * stop next travels 10, but the shortest order travels 8
+ * @param expanded Counts the states expanded
+ */
+function createProblem(expanded = { count: 0 }): SearchProblem<Tour> {
+  return {
+    initial: { position: 0, remaining: [1, -2, 4], cost: 0 },
+    expand: tour => {
+      expanded.count++;
+      return tour.remaining.map(stop => ({
+        position: stop,
+        remaining: tour.remaining.filter(other => other !== stop),
+        cost: tour.cost + Math.abs(stop - tour.position),
+      }));
+    },
+    finish: tour => tour,
+    compare: (a, b) => a.cost - b.cost,
+    canPrune: (tour, best) => tour.cost >= best.cost,
+  };
+}
+
+const options = { beamWidth: 3, timeBudget: 1000 };
+
+describe('search', () => {
+  it('always takes the best next choice in a greedy search', () => {
+    expect(search(createProblem(), 'greedy', options).cost).toBe(10);
+  });
+
+  it('finds the best plan with a wide enough beam', () => {
+    expect(search(createProblem(), 'beam', options).cost).toBe(8);
+    expect(search(createProblem(), 'beam', { ...options, beamWidth: 1 }).cost).toBe(10);
+  });
+
+  it('finds the best plan in an exact search', () => {
+    const plan = search(createProblem(), 'exact', options);
+
+    expect(plan.cost).toBe(8);
+    expect(plan.remaining).toHaveLength(0);
+  });
+
+  it('skips plans that can\'t beat the best plan found so far', () => {
+    const expanded = { count: 0 };
+
+    search(createProblem(expanded), 'exact', options);
+
+    // 4 states are expanded for the greedy plan, and 16 more to try every order
+    expect(expanded.count).toBeLessThan(20);
+  });
+
+  it('returns the greedy plan once the time budget runs out', () => {
+    expect(search(createProblem(), 'exact', { ...options, timeBudget: -1 }).cost).toBe(10);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * How to search for the best plan:
+ * - exact - branch and bound over every order of the targets. Finds the best
+ *   plan unless the time budget runs out, in which case the best plan found so far is used
+ * - beam - builds plans one target at a time, keeping only the best few partial plans
+ * - greedy - builds a single plan, always adding the best next target
+ */
+export type SearchMode = 'exact' | 'beam' | 'greedy';
+
+/**
+ * A problem that is solved by making a sequence of choices
+ */
+export interface SearchProblem<S> {
+  /** State before any choice is made */
+  initial: S;
+
+  /** States after each possible next choice. A state with no next choices is complete */
+  expand(state: S): S[];
+
+  /** Turns a state with no choices left into a final plan */
+  finish(state: S): S;
+
+  /** Negative if state a is better than state b */
+  compare(a: S, b: S): number;
+
+  /** Whether no completion of a state can be better than the best plan */
+  canPrune(state: S, best: S): boolean;
+}
+
+/**
+ * Options for searching
+ */
+export interface SearchOptions {
+  /** Number of partial plans kept at each step of a beam search */
+  beamWidth: number;
+
+  /** Time (in milliseconds) after which the search stops improving the plan */
+  timeBudget: number;
+}
+
+/**
+ * Searches for the best complete state of a problem
+ * @param problem
+ * @param mode
+ * @param options
+ */
+export function search<S>(problem: SearchProblem<S>, mode: SearchMode, options: SearchOptions): S {
+  const deadline = Date.now() + options.timeBudget;
+
+  switch (mode) {
+    case 'greedy':
+      return beamSearch(problem, 1, deadline);
+    case 'beam':
+      return beamSearch(problem, options.beamWidth, deadline);
+    default:
+      // a greedy plan gives a good first bound and an answer if time runs out
+      return branchAndBound(problem, beamSearch(problem, 1, deadline), deadline);
+  }
+}
+
+/**
+ * Beam search. Once the deadline passes, only the best partial plan is kept
+ * so that the search finishes quickly
+ * @param problem
+ * @param width Number of partial plans kept at each step
+ * @param deadline
+ */
+function beamSearch<S>(problem: SearchProblem<S>, width: number, deadline: number): S {
+  let best: S | undefined;
+  let beam = [problem.initial];
+
+  while (beam.length) {
+    const next: S[] = [];
+
+    for (const state of beam) {
+      const children = problem.expand(state);
+      if (!children.length) {
+        const plan = problem.finish(state);
+        if (!best || problem.compare(plan, best) < 0) {
+          best = plan;
+        }
+      }
+      next.push(...children);
+    }
+
+    beam = next
+      .sort((a, b) => problem.compare(a, b))
+      .slice(0, Date.now() > deadline ? 1 : width);
+  }
+
+  return best as S;
+}
+
+/**
+ * Depth first branch and bound. Tries the most promising choices first,
+ * and skips states that can't beat the best plan found so far
+ * @param problem
+ * @param best Best plan known before searching
+ * @param deadline
+ */
+function branchAndBound<S>(problem: SearchProblem<S>, best: S, deadline: number): S {
+  const visit = (state: S) => {
+    if (Date.now() > deadline || problem.canPrune(state, best)) {
+      return;
+    }
+
+    const children = problem.expand(state);
+    if (!children.length) {
+      const plan = problem.finish(state);
+      if (problem.compare(plan, best) < 0) {
+        best = plan;
+      }
+      return;
+    }
+
+    children
+      .sort((a, b) => problem.compare(a, b))
+      .forEach(visit);
+  };
+
+  visit(problem.initial);
+  return best;
+}
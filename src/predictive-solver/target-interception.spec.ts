@@ -0,0 +1,79 @@
+import getDistance from '@turf/distance';
+import { findGeodesicInterception, findTargetLineInterception } from './target-interception';
+
+describe('findTargetLineInterception', () => {
+  it('intercepts a stationary target at the start of the line', () => {
+    const interception = findTargetLineInterception([[3, 4], [10, 4]], 0, [0, 0], 1);
+
+    expect(interception).toBeDefined();
+    expect(interception!.position).toEqual([3, 4]);
+    expect(interception!.time).toBeCloseTo(5);
+  });
+
+  it('intercepts a target moving towards the vehicle', () => {
+    const interception = findTargetLineInterception([[0, 0], [10, 0]], 1, [10, 0], 3);
+
+    expect(interception!.time).toBeCloseTo(2.5);
+    expect(interception!.position[0]).toBeCloseTo(2.5);
+    expect(interception!.position[1]).toBeCloseTo(0);
+  });
+
+  it('solves the linear equation when both speeds are equal', () => {
+    const interception = findTargetLineInterception([[0, 0], [10, 0]], 1, [10, 0], 1);
+
+    expect(interception!.time).toBeCloseTo(5);
+    expect(interception!.position[0]).toBeCloseTo(5);
+  });
+
+  it('never catches a target moving away at the same speed', () => {
+    expect(findTargetLineInterception([[10, 0], [20, 0]], 1, [0, 0], 1)).toBeUndefined();
+  });
+
+  it('never catches a faster target when the discriminant is negative', () => {
+    expect(findTargetLineInterception([[0, 0], [10, 0]], 2, [0, 10], 1)).toBeUndefined();
+  });
+
+  it('never catches a faster target when both roots are negative', () => {
+    expect(findTargetLineInterception([[10, 0], [20, 0]], 2, [0, 0], 1)).toBeUndefined();
+  });
+
+  it('catches a faster target moving towards the vehicle at the earliest time', () => {
+    // roots at 20/3 and 20, the target passes the vehicle in between
+    const interception = findTargetLineInterception([[20, 0], [0, 0]], 2, [0, 0], 1);
+
+    expect(interception!.time).toBeCloseTo(20 / 3);
+    expect(interception!.position[0]).toBeCloseTo(20 / 3);
+  });
+
+  it('treats the target as having already moved for the time delay', () => {
+    const interception = findTargetLineInterception([[0, 0], [10, 0]], 1, [10, 0], 1, 4);
+
+    expect(interception!.time).toBeCloseTo(7);
+    expect(interception!.position[0]).toBeCloseTo(3);
+  });
+
+  it('drifts the vehicle with the wind', () => {
+    const interception = findTargetLineInterception([[3, 0], [4, 0]], 0, [0, 0], 1, 0, [2, 0]);
+
+    expect(interception!.time).toBeCloseTo(1);
+  });
+});
+
+describe('findGeodesicInterception', () => {
+  it('reaches a stationary target in the great circle distance', () => {
+    const interception = findGeodesicInterception([[1, 60], [2, 60]], 0, [0, 60], 1);
+
+    // a degree of longitude at 60 degrees north is only about half a degree of distance
+    expect(interception!.time).toBeCloseTo(getDistance([0, 60], [1, 60], { units: 'degrees' }), 6);
+    expect(interception!.position[0]).toBeCloseTo(1, 6);
+    expect(interception!.position[1]).toBeCloseTo(60, 6);
+  });
+
+  it('intercepts a target moving along a great circle on its path', () => {
+    const interception = findGeodesicInterception([[0, 61], [10, 61]], 0.5, [0, 60], 1)!;
+    const travelled = getDistance([0, 61], interception.position, { units: 'degrees' });
+
+    expect(getDistance([0, 60], interception.position, { units: 'degrees' })).toBeCloseTo(interception.time, 3);
+    expect(travelled).toBeCloseTo(interception.time * 0.5, 3);
+  });
+});
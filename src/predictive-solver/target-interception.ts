@@ -1,4 +1,22 @@
-import { Vecta } from 'vecta';
+import getDistance from '@turf/distance';
+import { createAzimuthalEquidistant } from './projection';
+
+/**
+ * Where and when a vehicle intercepts a target
+ */
+export interface TargetInterception {
+  /** The interception point [lon, lat] */
+  position: [number, number];
+
+  /** Time (in seconds) until the interception */
+  time: number;
+}
+
+/**
+ * Quadratic coefficients smaller than this (relative to the squared speeds)
+ * are treated as zero, which happens when both speeds are (almost) equal
+ */
+const EPSILON = 1e-12;
 
 /**
  * Finds the intercept of a vehicle moving at a constant velocity and
@@ -6,54 +24,162 @@ import { Vecta } from 'vecta';
  * velocity.
  * Treats the maximum distance the vehicle can travel as a circle, and
  * finds  the intercept between that circle and the target.
+ * The line is treated as continuing past its end, so callers should check
+ * that the target is still on the line segment at the interception time.
+ * In wind, the circle drifts with the wind, which is the same as the target
+ * moving against the wind while the vehicle flies through still air.
  * @param line The line segment represented as [[lon, lat], [lon, lat]]
- * @param targetSpeed The speed of the target in degrees/second
+ * @param targetSpeed The speed of the target in degrees/second. A speed of 0 is a stationary target at the start of the line
  * @param interceptorPosition The position of the interceptor vehicle
- * @param interceptorSpeed The speed in degrees/second of the interceptor vehicle
+ * @param interceptorSpeed The speed in degrees/second of the interceptor vehicle through the air
+ * @param timeDelay How long in seconds the target waits before starting to move
+ * @param wind Wind velocity [x, y] in degrees/second
+ * @returns The earliest interception, or undefined if the vehicle can never reach the target
+ */
+export function findTargetLineInterception(line: [[number, number], [number, number]], targetSpeed: number, interceptorPosition: [number, number], interceptorSpeed: number, timeDelay: number = 0, wind: [number, number] = [0, 0]): TargetInterception | undefined {
+  // a stationary target stays at the start of the line
+  const { targetStart, targetMovementVector } = targetSpeed === 0
+    ? { targetStart: line[0], targetMovementVector: [0, 0] as [number, number] }
+    : movingTarget(line, targetSpeed, timeDelay);
+
+  // offset of the target from the vehicle at the start
+  const offset = subtract(targetStart, interceptorPosition);
+
+  // velocity of the target relative to the air the vehicle flies through
+  const relativeMovementVector = subtract(targetMovementVector, wind);
+
+  const a = dot(relativeMovementVector, relativeMovementVector) - interceptorSpeed * interceptorSpeed;
+  const b = 2 * dot(offset, relativeMovementVector);
+  const c = dot(offset, offset);
+
+  // solve quadratic equation for a, b, c to find time
+  const scale = Math.max(dot(relativeMovementVector, relativeMovementVector), interceptorSpeed * interceptorSpeed);
+  const interceptTime = earliestTime(Math.abs(a) <= EPSILON * scale ? 0 : a, b, c);
+  if (typeof interceptTime === 'undefined') {
+    return undefined;
+  }
+
+  // find the point along the line the target would be at for the found time
+  const position: [number, number] = [
+    targetStart[0] + targetMovementVector[0] * interceptTime,
+    targetStart[1] + targetMovementVector[1] * interceptTime,
+  ];
+  return { position, time: interceptTime };
+}
+
+/**
+ * Where a target moving along a line is at time 0, and its velocity
+ * @param line The line segment represented as [[lon, lat], [lon, lat]]
+ * @param targetSpeed The speed of the target in degrees/second
  * @param timeDelay How long in seconds the target waits before starting to move
  */
-export function findTargetLineInterception(line: [[number, number], [number, number]], targetSpeed: number, interceptorPosition: [number, number], interceptorSpeed: number, timeDelay: number = 0) {
+function movingTarget(line: [[number, number], [number, number]], targetSpeed: number, timeDelay: number) {
   // get bearing of the line, where the x axis is 0 degrees
-  const bearing = new Vecta(line[0][0], line[0][1]).angleToRad(new Vecta(line[1][0], line[1][1]));
+  const bearing = Math.atan2(line[1][1] - line[0][1], line[1][0] - line[0][0]);
 
   // gradient of the line = the gradient the target moves along
-  const lineGradientVector = new Vecta(Math.cos(bearing), Math.sin(bearing));
+  const lineGradientVector: [number, number] = [Math.cos(bearing), Math.sin(bearing)];
 
   // calculate the target's movement vector ("gradient" * speed)
-  const targetMovementVector = lineGradientVector.mulScalar(targetSpeed); // velocity vector of target
+  const targetMovementVector: [number, number] = [lineGradientVector[0] * targetSpeed, lineGradientVector[1] * targetSpeed];
 
   // target start at t = 0 is equal to the start of the line. However, if this is not
   // the first line segment being tested, we imagine that the line is longer to account
   // for the previous line segments. The line segment is made longer on the start end.
-  const targetStartVector = lineGradientVector.invert()
-    .mulScalar(timeDelay * targetSpeed);
-  const targetStart = new Vecta(line[0][0], line[0][1]).add(targetStartVector);
+  const targetStart: [number, number] = [
+    line[0][0] - lineGradientVector[0] * timeDelay * targetSpeed,
+    line[0][1] - lineGradientVector[1] * timeDelay * targetSpeed,
+  ];
 
-  // the starting points of the target and vehicle
-  const vehicleStart = new Vecta(interceptorPosition[0], interceptorPosition[1]); // starting vehicle position
+  return { targetStart, targetMovementVector };
+}
 
-  const a = targetMovementVector.dotProduct(targetMovementVector) - interceptorSpeed * interceptorSpeed;
-  const b = 2 * targetStart.sub(vehicleStart).dotProduct(targetMovementVector);
-  const c = targetStart.sub(vehicleStart).dotProduct(targetStart.sub(vehicleStart));
+/**
+ * Finds the intercept of a vehicle and a target moving along a great circle
+ * line segment, both at constant speeds.
+ * Works in an azimuthal equidistant projection centred on the vehicle, so the
+ * area the vehicle can reach is a true circle, and scales the target's speed
+ * so that it crosses the projected line in the same time as the real one.
+ * @param line The line segment represented as [[lon, lat], [lon, lat]]
+ * @param targetSpeed The speed of the target in degrees (of great circle distance)/second
+ * @param interceptorPosition The position of the interceptor vehicle [lon, lat]
+ * @param interceptorSpeed The speed in degrees/second of the interceptor vehicle through the air
+ * @param timeDelay How long in seconds the target waits before starting to move
+ * @param wind Wind velocity [east, north] in degrees/second
+ * @returns The earliest interception, or undefined if the vehicle can never reach the target
+ */
+export function findGeodesicInterception(line: [[number, number], [number, number]], targetSpeed: number, interceptorPosition: [number, number], interceptorSpeed: number, timeDelay: number = 0, wind: [number, number] = [0, 0]): TargetInterception | undefined {
+  const projection = createAzimuthalEquidistant(interceptorPosition);
+  const projectedLine: [[number, number], [number, number]] = [projection.project(line[0]), projection.project(line[1])];
 
-  // solve quadratic equation for a, b, c to find time
-  const solutionA = solveQuadratic(a, b, c, 1);
-  const solutionB = solveQuadratic(a, b, c, -1);
+  // the projection stretches lines away from the centre, so the target moves a little faster on the projected line
+  const lineDistance = getDistance(line[0], line[1], { units: 'degrees' });
+  const projectedDistance = Math.hypot(projectedLine[1][0] - projectedLine[0][0], projectedLine[1][1] - projectedLine[0][1]);
+  const projectedSpeed = lineDistance > 0 ? targetSpeed * projectedDistance / lineDistance : targetSpeed;
 
-  // only positive solution is the correct one (time cannot be negative)
-  const interceptTime = Math.max(solutionA, solutionB);
+  // the projection is centred on the vehicle, so its axes point east and north like the wind
+  const interception = findTargetLineInterception(projectedLine, projectedSpeed, [0, 0], interceptorSpeed, timeDelay, wind);
+  if (typeof interception === 'undefined') {
+    return undefined;
+  }
 
-  // find the point along the line the target would be at for the found time
-  return targetStart.add(targetMovementVector.mulScalar(interceptTime));
+  return { position: projection.unproject(interception.position), time: interception.time };
+}
+
+/**
+ * Finds the smallest non-negative time solving a t^2 + b t + c = 0
+ * @param a
+ * @param b
+ * @param c
+ * @returns The time, or undefined if there is no real non-negative solution
+ */
+function earliestTime(a: number, b: number, c: number) {
+  // vehicle and target move at the same speed, so the equation is linear
+  if (a === 0) {
+    if (b === 0) {
+      return c === 0 ? 0 : undefined;
+    }
+    const time = -c / b;
+    return time >= 0 ? time : undefined;
+  }
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) {
+    return undefined;
+  }
+
+  const times = [solveQuadratic(a, b, discriminant, 1), solveQuadratic(a, b, discriminant, -1)]
+    .filter(time => time >= 0);
+
+  // time cannot be negative
+  return times.length ? Math.min(...times) : undefined;
 }
 
 /**
  * Solves a quadratic equation
  * @param a 
  * @param b 
- * @param c 
+ * @param discriminant b^2 - 4ac
  * @param multiplier There are two ways to perform the equation - one with a - and one with a +
  */
-function solveQuadratic(a: number, b: number, c: number, multiplier: -1 | 1 = 1) {
-  return (-1 * b + multiplier * Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+function solveQuadratic(a: number, b: number, discriminant: number, multiplier: -1 | 1 = 1) {
+  return (-1 * b + multiplier * Math.sqrt(discriminant)) / (2 * a);
+}
+
+/**
+ * Difference between two vectors
+ * @param a
+ * @param b
+ */
+function subtract(a: [number, number], b: [number, number]): [number, number] {
+  return [a[0] - b[0], a[1] - b[1]];
+}
+
+/**
+ * Dot product of two vectors
+ * @param a
+ * @param b
+ */
+function dot(a: [number, number], b: [number, number]) {
+  return a[0] * b[0] + a[1] * b[1];
 }
\ No newline at end of file
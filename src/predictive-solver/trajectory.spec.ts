@@ -0,0 +1,51 @@
+import { createTrajectory, positionAt } from './trajectory';
+
+const toDegrees = (length: number) => length;
+
+describe('createTrajectory', () => {
+  it('moves at the speed of each segment', () => {
+    const segments = createTrajectory({ positions: [[0, 0], [0, 1], [0, 3]], speeds: [1, 2] }, toDegrees);
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0].startTime).toBe(0);
+    expect(segments[1].startTime).toBeCloseTo(1, 2);
+    expect(segments[1].endTime).toBeCloseTo(2, 2);
+  });
+
+  it('works out the speeds from timestamped positions', () => {
+    const segments = createTrajectory({ positions: [[0, 0, 10], [0, 1, 12], [0, 2, 13]] }, toDegrees);
+
+    expect(segments).toHaveLength(3);
+    expect(segments[0]).toMatchObject({ start: [0, 0], end: [0, 0], startTime: 0, endTime: 10, speed: 0 });
+    expect(segments[1].speed).toBeCloseTo(0.5);
+    expect(segments[2].speed).toBeCloseTo(1);
+  });
+
+  it('stays at the first position without a speed', () => {
+    expect(createTrajectory({ positions: [[1, 2], [3, 4]] }, toDegrees))
+      .toEqual([{ start: [1, 2], end: [1, 2], startTime: 0, endTime: Infinity, speed: 0 }]);
+  });
+});
+
+describe('positionAt', () => {
+  it('finds the position along a segment', () => {
+    const segments = createTrajectory({ positions: [[0, 0, 0], [0, 2, 2]] }, toDegrees);
+
+    const position = positionAt(segments, 1)!;
+
+    expect(position[0]).toBeCloseTo(0);
+    expect(position[1]).toBeCloseTo(1);
+  });
+
+  it('waits at the start before the first timestamp', () => {
+    const segments = createTrajectory({ positions: [[0, 0, 5], [0, 1, 6]] }, toDegrees);
+
+    expect(positionAt(segments, 2)).toEqual([0, 0]);
+  });
+
+  it('has no position once the trajectory has finished', () => {
+    const segments = createTrajectory({ positions: [[0, 0, 0], [0, 1, 1]] }, toDegrees);
+
+    expect(positionAt(segments, 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import getDistance from '@turf/distance';
+import { TargetPath } from './predictive-solver';
+import { createAzimuthalEquidistant } from './projection';
+
+/**
+ * A straight (great circle) part of a target's trajectory,
+ * travelled at a constant speed
+ */
+export interface TrajectorySegment {
+  /** Where the target is at the start time [lon, lat] */
+  start: [number, number];
+
+  /** Where the target is at the end time [lon, lat] */
+  end: [number, number];
+
+  /** Time (in seconds) the target is at the start of the segment */
+  startTime: number;
+
+  /** Time (in seconds) the target is at the end of the segment. Infinity if the target stays at the end */
+  endTime: number;
+
+  /** Speed along the segment in degrees per second */
+  speed: number;
+}
+
+/**
+ * Turns a target's positions into segments the target moves along at a
+ * constant speed. Timestamped positions ([lon, lat, t]) take priority, then
+ * per-segment speeds, then the target's single speed.
+ * Before the first timestamp, the target waits at the first position. A
+ * target with no speed at all stays at its first position.
+ * @param path The target's motion
+ * @param toDegrees Converts a length (or speed) in solver units into degrees
+ */
+export function createTrajectory(path: TargetPath, toDegrees: (length: number) => number): TrajectorySegment[] {
+  const positions = path.positions;
+  const timestamped = positions.length > 0 && positions.every(position => position.length > 2);
+
+  if (timestamped) {
+    const segments: TrajectorySegment[] = [];
+    const first = positions[0] as [number, number, number];
+    if (first[2] > 0) {
+      segments.push({ start: lonLat(first), end: lonLat(first), startTime: 0, endTime: first[2], speed: 0 });
+    }
+
+    for (let i = 0; i < positions.length - 1; i++) {
+      const from = positions[i] as [number, number, number];
+      const to = positions[i + 1] as [number, number, number];
+      const duration = to[2] - from[2];
+
+      // positions out of order or at the same time can't be travelled between
+      if (duration <= 0) {
+        continue;
+      }
+
+      const length = getDistance(lonLat(from), lonLat(to), { units: 'degrees' });
+      segments.push({ start: lonLat(from), end: lonLat(to), startTime: from[2], endTime: to[2], speed: length / duration });
+    }
+    return segments;
+  }
+
+  const speeds = positions.slice(1).map((_, index) => toDegrees(path.speeds && typeof path.speeds[index] === 'number'
+    ? path.speeds[index]
+    : path.speed || 0));
+
+  // a target that never moves waits at the start of its path
+  if (!positions.length || speeds.every(speed => speed === 0)) {
+    return positions.length
+      ? [{ start: lonLat(positions[0]), end: lonLat(positions[0]), startTime: 0, endTime: Infinity, speed: 0 }]
+      : [];
+  }
+
+  const segments: TrajectorySegment[] = [];
+  let time = 0;
+  for (let i = 0; i < positions.length - 1; i++) {
+    const start = lonLat(positions[i]);
+    const end = lonLat(positions[i + 1]);
+    const speed = speeds[i];
+
+    // the target stops for good if it has no speed on a segment
+    if (speed === 0) {
+      segments.push({ start, end: start, startTime: time, endTime: Infinity, speed: 0 });
+      break;
+    }
+
+    const duration = getDistance(start, end, { units: 'degrees' }) / speed;
+    segments.push({ start, end, startTime: time, endTime: time + duration, speed });
+    time += duration;
+  }
+  return segments;
+}
+
+/**
+ * Where the target is at a time
+ * @param segments The target's trajectory
+ * @param time Time in seconds
+ * @returns The position [lon, lat], or undefined if the trajectory has finished by then
+ */
+export function positionAt(segments: TrajectorySegment[], time: number): [number, number] | undefined {
+  const segment = segments.find(other => other.startTime <= time && time <= other.endTime);
+  if (!segment) {
+    // before the trajectory starts, the target waits at its start
+    return segments.length && time < segments[0].startTime ? segments[0].start : undefined;
+  }
+
+  if (segment.speed === 0) {
+    return segment.start;
+  }
+
+  // great circles through the centre of the projection are straight lines
+  const projection = createAzimuthalEquidistant(segment.start);
+  const end = projection.project(segment.end);
+  const fraction = (time - segment.startTime) / (segment.endTime - segment.startTime);
+  return projection.unproject([end[0] * fraction, end[1] * fraction]);
+}
+
+/**
+ * Strips the timestamp from a position
+ * @param position
+ */
+function lonLat(position: [number, number] | [number, number, number]): [number, number] {
+  return [position[0], position[1]];
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { detectionProbability } from './uncertainty';
+
+describe('detectionProbability', () => {
+  it('detects certain targets only within the radius', () => {
+    expect(detectionProbability(1, 0, 1)).toBe(1);
+    expect(detectionProbability(1.1, 0, 1)).toBe(0);
+  });
+
+  it('follows the rayleigh distribution at the predicted position', () => {
+    expect(detectionProbability(0, 1, 1)).toBeCloseTo(1 - Math.exp(-0.5), 6);
+    expect(detectionProbability(0, 1, 2)).toBeCloseTo(1 - Math.exp(-2), 6);
+  });
+
+  it('is less likely further from the predicted position', () => {
+    const probabilities = [0, 0.5, 1, 2, 4].map(offset => detectionProbability(offset, 1, 1));
+
+    probabilities.slice(1).forEach((probability, index) => expect(probability).toBeLessThan(probabilities[index]));
+    expect(probabilities[4]).toBeLessThan(0.01);
+  });
+});
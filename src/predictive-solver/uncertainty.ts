@@ -0,0 +1,59 @@
+/**
+ * Probability of detecting a target whose position is uncertain.
+ * The target's position is a circular normal distribution around its
+ * predicted position, and the target is detected if it is within the
+ * detection radius of the vehicle.
+ * @param offset Distance between the vehicle and the predicted target position
+ * @param sigma Standard deviation of the target's position in each direction
+ * @param radius Detection radius of the vehicle
+ */
+export function detectionProbability(offset: number, sigma: number, radius: number) {
+  if (sigma <= 0) {
+    return offset <= radius ? 1 : 0;
+  }
+
+  // the squared distance to the target (in units of sigma^2) has a non central
+  // chi-squared distribution, which is a Poisson mixture of chi-squared distributions
+  const x = offset * offset / (2 * sigma * sigma);
+  const y = radius * radius / (2 * sigma * sigma);
+
+  // far from the prediction or with a large radius (relative to the error) the series underflows,
+  // but the uncertainty is then too small to matter
+  if (x > MAX_EXPONENT || y > MAX_EXPONENT) {
+    return offset <= radius ? 1 : 0;
+  }
+
+  let probability = 0;
+  let mixtureWeight = Math.exp(-x);
+  let mixtureTotal = 0;
+  let poissonTerm = Math.exp(-y);
+  let poissonTotal = 0;
+
+  for (let n = 0; n < MAX_TERMS && mixtureTotal < 1 - TOLERANCE; n++) {
+    // probability the chi-squared distribution with 2n + 2 degrees of freedom is within the radius
+    poissonTotal += poissonTerm;
+    probability += mixtureWeight * (1 - poissonTotal);
+    mixtureTotal += mixtureWeight;
+
+    mixtureWeight *= x / (n + 1);
+    poissonTerm *= y / (n + 1);
+  }
+
+  return Math.min(1, Math.max(0, probability));
+}
+
+/**
+ * Most terms of the series to sum. Only reached when the target
+ * is many standard deviations away
+ */
+const MAX_TERMS = 1000;
+
+/**
+ * Largest exponent before the series terms underflow
+ */
+const MAX_EXPONENT = 500;
+
+/**
+ * Stop summing once the terms left add up to less than this
+ */
+const TOLERANCE = 1e-9;
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { improveRoutes } from './local-search';
+import { Point, Route, routeDistance } from './route';
+
+/**
+ * Creates points at the given positions with euclidean distances between them
+ * @param positions
+ */
+function createPoints(positions: Array<[number, number]>) {
+  const points = positions.map(position => new Point(position[0], position[1], 1));
+  points.forEach(point => points.forEach(other => {
+    point.setDistanceTo(other, Math.hypot(point.x - other.x, point.y - other.y));
+  }));
+  return points;
+}
+
+/**
+ * Creates a route from the depot through the points in order
+ * @param depot
+ * @param points
+ */
+function createRoute(depot: Point, points: Point[]) {
+  const route = new Route(points[0], depot);
+  route.points.push(...points.slice(1));
+  return route;
+}
+
+describe('improveRoutes', () => {
+  const [depot, east, northEast, west, stray] = createPoints([[0, 0], [2, 0], [2, 2], [-2, 0], [2, 1]]);
+
+  it('moves customers to the route they are closest to', () => {
+    const routes = [createRoute(depot, [east, northEast]), createRoute(depot, [west, stray])];
+    const distance = routes.reduce((total, route) => total + routeDistance(route.points), 0);
+
+    // at most three customers on a route
+    const saved = improveRoutes(routes, points => points.length <= 4);
+
+    const eastRoute = routes.find(route => route.points.indexOf(east) !== -1);
+    expect(eastRoute && eastRoute.points).toContain(stray);
+    expect(routes.some(route => route.points.length === 2 && route.points[1] === west)).toBe(true);
+    expect(saved).toBeGreaterThan(0);
+    expect(routes.reduce((total, route) => total + routeDistance(route.points), 0)).toBeCloseTo(distance - saved);
+  });
+
+  it('only makes moves that leave both routes feasible', () => {
+    const routes = [createRoute(depot, [east, northEast]), createRoute(depot, [west, stray])];
+
+    // the stray customer has to stay with the west customer
+    improveRoutes(routes, points => points.indexOf(stray) === -1 || points.indexOf(west) !== -1);
+
+    expect(routes.some(route => route.points.indexOf(stray) !== -1 && route.points.indexOf(west) !== -1)).toBe(true);
+  });
+
+  it('never leaves more routes without a vehicle', () => {
+    const routes = [createRoute(depot, [east, northEast]), createRoute(depot, [west, stray])];
+
+    // routes with more than two customers need a vehicle there isn't
+    const saved = improveRoutes(routes, points => points.length <= 4, points => points.filter(route => route.length > 3).length);
+
+    expect(saved).toBeGreaterThan(0);
+    expect(routes.every(route => route.points.length <= 3)).toBe(true);
+  });
+
+  it('stops after the most moves', () => {
+    const routes = [createRoute(depot, [east, northEast]), createRoute(depot, [west, stray])];
+
+    expect(improveRoutes(routes, () => true, () => 0, 0)).toBe(0);
+  });
+});
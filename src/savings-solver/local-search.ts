@@ -0,0 +1,149 @@
+import { Point, Route, routeDistance } from './route';
+
+/**
+ * Smallest decrease in distance that counts as an improvement.
+ * Avoids cycling between moves that differ only by floating point error
+ */
+const EPSILON = 1e-9;
+
+/**
+ * Improves routes by moving customers between them, making the first
+ * improving move found until no move improves the total distance:
+ * - relocate - moves a customer to another route
+ * - or-opt - moves a chain of two or three customers (either way around) to another route
+ * - swap - swaps two customers on different routes
+ * - 2-opt* - swaps the ends of two routes
+ * Only routes from the same depot exchange customers. Routes may be left
+ * with no customers (only the depot).
+ * @param routes Routes to improve. Their points are modified in place
+ * @param isFeasible Determines whether a route (starting at the depot) can be served
+ * @param countUnassigned Counts how many of the routes (starting at the depot) are left
+ * without a vehicle, such as when the fleet is limited. Moves never increase it
+ * @param maxIter Maximum number of moves to make
+ * @returns The total distance saved
+ */
+export function improveRoutes(
+  routes: Route[],
+  isFeasible: (points: Point[]) => boolean,
+  countUnassigned: (routes: Point[][]) => number = () => 0,
+  maxIter = 1000,
+): number {
+  let saved = 0;
+
+  for (let i = 0; i < maxIter; i++) {
+    const improvement = findImprovingMove(routes, isFeasible, countUnassigned);
+    if (improvement === 0) {
+      break;
+    }
+    saved += improvement;
+  }
+
+  return saved;
+}
+
+/**
+ * Finds and makes the first move between two routes that decreases the
+ * total distance
+ * @param routes
+ * @param isFeasible
+ * @param countUnassigned
+ * @returns The distance saved, or 0 if no improving move was found
+ */
+function findImprovingMove(routes: Route[], isFeasible: (points: Point[]) => boolean, countUnassigned: (routes: Point[][]) => number): number {
+  const unassigned = countUnassigned(routes.map(route => route.points));
+
+  for (const routeA of routes) {
+    for (const routeB of routes) {
+      if (routeA === routeB || routeA.depot !== routeB.depot) {
+        continue;
+      }
+
+      const distance = routeDistance(routeA.points) + routeDistance(routeB.points);
+      let saved = 0;
+
+      forEachMove(routeA.points, routeB.points, (pointsA, pointsB) => {
+        const improvement = distance - routeDistance(pointsA) - routeDistance(pointsB);
+        if (improvement <= EPSILON || !isFeasibleRoute(pointsA, isFeasible) || !isFeasibleRoute(pointsB, isFeasible)) {
+          return false;
+        }
+
+        const moved = routes.map(route => route === routeA ? pointsA : route === routeB ? pointsB : route.points);
+        if (countUnassigned(moved) > unassigned) {
+          return false;
+        }
+
+        routeA.points = pointsA;
+        routeB.points = pointsB;
+        saved = improvement;
+        return true;
+      });
+
+      if (saved > 0) {
+        return saved;
+      }
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Routes with only the depot don't need to be served so are always feasible
+ * @param points
+ * @param isFeasible
+ */
+function isFeasibleRoute(points: Point[], isFeasible: (points: Point[]) => boolean) {
+  return points.length <= 1 || isFeasible(points);
+}
+
+/**
+ * Calls visit with the points of both routes after each possible move
+ * (relocate, or-opt, swap, 2-opt*) from route A to route B. Both point lists
+ * start with the depot. Stops once visit returns true
+ * @param a Points of route A
+ * @param b Points of route B
+ * @param visit
+ */
+function forEachMove(a: Point[], b: Point[], visit: (a: Point[], b: Point[]) => boolean) {
+  // relocate (chain of 1) and or-opt (chains of 2 and 3)
+  for (let length = 1; length <= 3; length++) {
+    for (let i = 1; i + length <= a.length; i++) {
+      const chain = a.slice(i, i + length);
+      const remaining = [...a.slice(0, i), ...a.slice(i + length)];
+      const chains = length === 1 ? [chain] : [chain, chain.slice().reverse()];
+
+      for (const insert of chains) {
+        for (let j = 1; j <= b.length; j++) {
+          if (visit(remaining, [...b.slice(0, j), ...insert, ...b.slice(j)])) {
+            return;
+          }
+        }
+      }
+    }
+  }
+
+  // swap
+  for (let i = 1; i < a.length; i++) {
+    for (let j = 1; j < b.length; j++) {
+      const swappedA = a.slice();
+      const swappedB = b.slice();
+      swappedA[i] = b[j];
+      swappedB[j] = a[i];
+      if (visit(swappedA, swappedB)) {
+        return;
+      }
+    }
+  }
+
+  // 2-opt* - cut both routes after i and j and swap the ends
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (i === a.length - 1 && j === b.length - 1) {
+        continue; // both ends are empty so nothing changes
+      }
+      if (visit([...a.slice(0, i + 1), ...b.slice(j + 1)], [...b.slice(0, j + 1), ...a.slice(i + 1)])) {
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { createRandom, shuffle } from './random';
+
+describe('createRandom', () => {
+  it('gives the same numbers for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const c = createRandom(43);
+
+    const numbers = [a(), a(), a()];
+
+    expect([b(), b(), b()]).toEqual(numbers);
+    expect([c(), c(), c()]).not.toEqual(numbers);
+  });
+
+  it('gives numbers from 0 up to 1', () => {
+    const random = createRandom(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const number = random();
+      expect(number).toBeGreaterThanOrEqual(0);
+      expect(number).toBeLessThan(1);
+    }
+  });
+});
+
+describe('shuffle', () => {
+  it('reorders the items in place', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+
+    const shuffled = shuffle(items, createRandom(1));
+
+    expect(shuffled).toBe(items);
+    expect(shuffled.slice().sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(shuffle([1, 2, 3, 4, 5, 6, 7, 8], createRandom(1))).toEqual(shuffled);
+  });
+});
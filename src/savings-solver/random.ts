@@ -0,0 +1,33 @@
+/**
+ * Creates a seeded pseudo random number generator (mulberry32).
+ * Like Math.random, the generator returns numbers in [0, 1), but the
+ * same seed always gives the same sequence of numbers.
+ * @param seed Any integer
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles a list in place using the Fisher-Yates shuffle
+ * @param items The list to shuffle
+ * @param random Random number generator returning numbers in [0, 1)
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const item = items[i];
+    items[i] = items[j];
+    items[j] = item;
+  }
+
+  return items;
+}
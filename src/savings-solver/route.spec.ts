@@ -0,0 +1,211 @@
+import { createRandom, shuffle } from './random';
+import { Point, Route, findNeighbours, isInPairOrder, routeDistance, routeLoads } from './route';
+
+/**
+ * Creates points at random positions with euclidean distances between them
+ * @param count
+ * @param seed
+ */
+function createPoints(count: number, seed: number) {
+  const random = createRandom(seed);
+  const points: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push(new Point(random() * 100, random() * 100, 1));
+  }
+
+  points.forEach(point => points.forEach(other => {
+    point.setDistanceTo(other, Math.hypot(point.x - other.x, point.y - other.y));
+  }));
+  return points;
+}
+
+/**
+ * Creates a route visiting all the points after the first (the depot) in order
+ * @param points
+ */
+function createRoute(points: Point[]) {
+  const route = new Route(points[1], points[0]);
+  route.points.push(...points.slice(2));
+  return route;
+}
+
+/**
+ * Finds the largest decrease in distance from any two-opt swap, by trying all of them
+ * @param points
+ */
+function bestSwapImprovement(points: Point[]) {
+  const distance = routeDistance(points);
+  let best = 0;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 2; j < points.length; j++) {
+      const swapped = [...points.slice(0, i + 1), ...points.slice(i + 1, j + 1).reverse(), ...points.slice(j + 1)];
+      best = Math.max(best, distance - routeDistance(swapped));
+    }
+  }
+  return best;
+}
+
+describe('findNeighbours', () => {
+  it('finds the closest points to each point in order of distance', () => {
+    const points = createPoints(30, 1);
+    const neighbours = findNeighbours(points, 5);
+
+    points.forEach(point => {
+      const expected = points
+        .filter(other => other !== point)
+        .sort((a, b) => point.getDistanceTo(a) - point.getDistanceTo(b))
+        .slice(0, 5);
+      expect(neighbours.get(point)).toEqual(expected);
+    });
+  });
+
+  it('finds all the other points when there are fewer than the count', () => {
+    const points = createPoints(4, 2);
+    const neighbours = findNeighbours(points, 16);
+
+    expect(neighbours.get(points[0])).toHaveLength(3);
+    expect(neighbours.get(points[0])).not.toContain(points[0]);
+  });
+});
+
+describe('Route.optimise', () => {
+  it('reaches a two-opt local optimum', () => {
+    [3, 4, 5].forEach(seed => {
+      const points = createPoints(60, seed);
+      const route = createRoute(points);
+      const distance = route.totalDistance();
+
+      route.optimise({ neighbours: 60 });
+
+      expect(route.totalDistance()).toBeLessThan(distance);
+      expect(bestSwapImprovement(route.points)).toBeLessThanOrEqual(1e-9);
+    });
+  });
+
+  it('finds the shortest route around points on a circle', () => {
+    // any route that isn't around the circle has crossing edges, so two-opt finds the shortest
+    const count = 24;
+    const random = createRandom(12);
+    const points: Point[] = [];
+    for (let i = 0; i < count; i++) {
+      points.push(new Point(Math.cos(2 * Math.PI * i / count), Math.sin(2 * Math.PI * i / count), 1));
+    }
+    points.forEach(point => points.forEach(other => {
+      point.setDistanceTo(other, Math.hypot(point.x - other.x, point.y - other.y));
+    }));
+    const route = createRoute([points[0], ...shuffle(points.slice(1), random)]);
+
+    route.optimise({ neighbours: count });
+
+    expect(route.totalDistance()).toBeCloseTo(2 * count * Math.sin(Math.PI / count), 9);
+  });
+
+  it('reaches a two-opt local optimum making the best swap of each pass', () => {
+    const points = createPoints(60, 6);
+    const route = createRoute(points);
+
+    route.optimise({ mode: 'best', neighbours: 60, maxPasses: 1000 });
+
+    expect(bestSwapImprovement(route.points)).toBeLessThanOrEqual(1e-9);
+  });
+
+  it('visits every point once, starting at the depot', () => {
+    const points = createPoints(40, 7);
+    const route = createRoute(points);
+
+    route.optimise();
+
+    expect(route.points[0]).toBe(points[0]);
+    expect(route.points.slice().sort((a, b) => a.x - b.x)).toEqual(points.slice().sort((a, b) => a.x - b.x));
+  });
+
+  it('only makes swaps that leave the route feasible', () => {
+    const points = createPoints(30, 8);
+    const route = createRoute(points);
+    const last = points[points.length - 1];
+
+    route.optimise({}, order => order[order.length - 1] === last);
+
+    expect(route.points[route.points.length - 1]).toBe(last);
+  });
+
+  it('keeps each pickup before its delivery', () => {
+    const points = createPoints(30, 11);
+    // pair up the customers, visiting each delivery straight after its pickup
+    for (let i = 1; i + 1 < points.length; i += 2) {
+      points[i].delivery = points[i + 1];
+      points[i + 1].pickup = points[i];
+      points[i + 1].demand = 0;
+    }
+    const route = createRoute(points);
+    const distance = routeDistance(route.points);
+
+    route.optimise({}, isInPairOrder);
+
+    expect(isInPairOrder(route.points)).toBe(true);
+    expect(routeDistance(route.points)).toBeLessThan(distance);
+  });
+
+  it('skips neighbours that are on other routes', () => {
+    const points = createPoints(40, 9);
+    const route = createRoute(points.slice(0, 20));
+
+    route.optimise({}, () => true, findNeighbours(points, 16));
+
+    expect(route.points).toHaveLength(20);
+    expect(route.points.every(point => points.indexOf(point) < 20)).toBe(true);
+  });
+
+  it('shortens long routes', () => {
+    const points = createPoints(1000, 10);
+    const route = createRoute(points);
+    const distance = route.totalDistance();
+
+    route.optimise({}, () => true, findNeighbours(points, 16));
+
+    expect(route.totalDistance()).toBeLessThan(distance / 3);
+  });
+
+  it('tests swaps in linear time in each pass', () => {
+    // count the distances looked up by a pass over an optimised route, which finds no swaps
+    const lookups = [500, 1000].map(count => {
+      const points = createPoints(count, 10);
+      const neighbours = findNeighbours(points, 16);
+      const route = createRoute(points);
+      route.optimise({ maxPasses: 1000 }, () => true, neighbours);
+
+      const spy = jest.spyOn(Point.prototype, 'getDistanceTo');
+      route.optimise({ maxPasses: 1 }, () => true, neighbours);
+      const calls = spy.mock.calls.length;
+      spy.mockRestore();
+      return calls;
+    });
+
+    // twice as many points would take four times as long with quadratic passes
+    expect(lookups[1] / lookups[0]).toBeLessThan(2.5);
+  });
+});
+
+describe('routeLoads', () => {
+  it('carries loads from the depot and from each pickup to its delivery', () => {
+    const [depot, customer, pickup, delivery] = [0, 1, 2, 3].map(x => new Point(x, 0, x));
+    delivery.demand = 0;
+    pickup.delivery = delivery;
+    delivery.pickup = pickup;
+
+    expect(routeLoads([depot, customer, pickup, delivery])).toEqual([1, 0, 2, 0]);
+    expect(routeLoads([depot, pickup, customer, delivery])).toEqual([1, 3, 2, 0]);
+  });
+});
+
+describe('isInPairOrder', () => {
+  it('requires each pickup before its delivery on the same route', () => {
+    const [depot, pickup, delivery] = [0, 1, 2].map(x => new Point(x, 0, 1));
+    pickup.delivery = delivery;
+    delivery.pickup = pickup;
+
+    expect(isInPairOrder([depot, pickup, delivery])).toBe(true);
+    expect(isInPairOrder([depot, delivery, pickup])).toBe(false);
+    expect(isInPairOrder([depot, pickup])).toBe(false);
+  });
+});
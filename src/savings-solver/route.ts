@@ -0,0 +1,486 @@
+import { Customer, PickupDeliveryRequest, TwoOptOptions } from './savings-solver';
+import { EnergyModel } from '../energy/energy';
+
+/**
+ * A Clarke Wright algorithm point
+ */
+export class Point {
+  x: number;
+  y: number;
+  demand: number;
+  earliest = 0;
+  latest = Infinity;
+  serviceDuration = 0;
+  customer!: Customer; // the customer the point was created from (not set for depots)
+  delivery?: Point; // where the load collected at a pickup is dropped off
+  pickup?: Point; // where the load dropped off at a delivery was collected
+  private distances = new WeakMap<Point, number>();
+
+  /**
+   * Instantiates a point
+   * @param x The x position of the point
+   * @param y The y position of the point
+   * @param demand The demand/priority of the point - higher means more demand
+   */
+  constructor(x: number, y: number, demand: number) {
+    this.x = x;
+    this.y = y;
+    this.demand = demand;
+  }
+
+  /**
+   * Converts a customer interface into a point
+   * @param json 
+   */
+  public static fromCustomer(customer: Customer) {
+    const point = new Point(customer.lon, customer.lat, customer.demand);
+    point.customer = customer;
+    if (typeof customer.earliest !== 'undefined') point.earliest = customer.earliest;
+    if (typeof customer.latest !== 'undefined') point.latest = customer.latest;
+    if (typeof customer.serviceDuration !== 'undefined') point.serviceDuration = customer.serviceDuration;
+    return point;
+  }
+
+  /**
+   * Converts a pickup and delivery request into a pair of points. The
+   * pickup's demand is the load, which isn't brought from the depot
+   * @param request
+   */
+  public static fromRequest(request: PickupDeliveryRequest): [Point, Point] {
+    const pickup = Point.fromCustomer(request.pickup);
+    const delivery = Point.fromCustomer(request.delivery);
+    delivery.demand = 0;
+    pickup.delivery = delivery;
+    delivery.pickup = pickup;
+    return [pickup, delivery];
+  }
+
+  /**
+   * Calculates the euclidean distance between two points
+   * @param point
+   */
+  getDistanceTo(point: Point): number {
+    const distance = this.distances.get(point);
+    if (typeof distance === 'undefined') {
+      return Infinity;
+    }
+
+    return distance;
+  }
+
+  setDistanceTo(point: Point, distance: number) {
+    this.distances.set(point, distance);
+  }
+}
+
+/**
+ * Clarke Wright route
+ */
+export class Route {
+  static id = 0;
+  points: Point[]; // list of points excluding the depot
+  depot: Point; // the depot
+
+  id: number;
+
+  constructor(a: Point, depot: Point) {
+    this.points = [depot, a];
+    this.depot = depot;
+    this.id = Route.id++;
+  }
+
+  /**
+   * Returns the start point of the route (after the depot)
+   */
+  public getStart(): Point {
+    return this.points[1];
+  }
+
+  /**
+   * Returns the end point of the route (before the depot)
+   */
+  public getEnd(): Point {
+    return this.points[this.points.length - 1];
+  }
+
+  /**
+   * Appends the points of the given route to this route (excluding
+   * the depot)
+   * @param route 
+   */
+  public joinRoute(route: Route) {
+    this.points.push(...route.points.slice(1));
+  }
+
+  /**
+   * Cost from the depot through the points and back to the depot
+   */
+  public totalDistance(): number {
+    return routeDistance(this.points);
+  }
+
+  /**
+   * Total demand of all the points
+   */
+  public totalDemand() {
+    return routeDemand(this.points);
+  }
+
+  /**
+   * Load on board when leaving each point of the route
+   */
+  public loads() {
+    return routeLoads(this.points);
+  }
+
+  /**
+   * Planned arrival time at each point of the route, including the
+   * return to the depot
+   * @param speed Vehicle speed
+   */
+  public arrivalTimes(speed: number) {
+    return arrivalTimes([...this.points, this.depot], speed);
+  }
+
+  /**
+   * Attempts to optimise the route using two-opt local search.
+   * Runs until no swap improves the distance by more than epsilon, i.e. the
+   * route is at a two-opt local optimum (for the neighbours considered).
+   * With symmetric costs, this is a true two-opt local optimum when every
+   * point of the route is within the neighbours of every other. With
+   * asymmetric costs, some improving swaps may not be tested
+   * @param options
+   * @param isFeasible Rejects point orders that break a constraint (e.g. time windows)
+   * @param neighbours Closest points to each point, such as those found once for a whole
+   * problem. Neighbours that aren't on the route are skipped. Found from the route's own
+   * points if not given
+   */
+  public optimise(options: TwoOptOptions = {}, isFeasible: (points: Point[]) => boolean = () => true, neighbours?: Map<Point, Point[]>) {
+    const mode = options.mode || 'first';
+    const epsilon = typeof options.epsilon === 'undefined' ? 1e-9 : options.epsilon;
+    const maxPasses = options.maxPasses || 100;
+    if (!neighbours) {
+      neighbours = findNeighbours(this.points, options.neighbours || 16);
+    }
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+      if (!this.twoOpt(mode, epsilon, neighbours, isFeasible)) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Two-opt implementation. Swaps points if the distances
+   * would be improved. Usually gets rid of most intersecting edges.
+   *
+   * This implementation takes a circuit and reverses the part between the
+   * given edges rather than actually swapping the edges. This has the same
+   * effect.
+   * 
+   * A ---   --- B            A --------> B
+   * ^    \ /    ^            ^           |
+   * |    / \    |  becomes   |           v
+   * D <--   --> C            D <-------- C
+   * 
+   * A->C->B->D->A            A->B->C->D->A
+   *
+   * Makes a single pass over the route. Only swaps that create an edge from a
+   * point to one of its neighbours that is shorter than the edge it replaces
+   * are tested. Any improving swap has such an edge when costs are symmetric,
+   * so with enough neighbours no improving swap is missed. Asymmetric costs
+   * also change along the reversed points, so an improving swap may only
+   * create longer edges and not be tested.
+   * In first mode, swaps are made as soon as they are found. In best mode,
+   * only the best swap found in the pass is made.
+   *
+   * Swaps are made in place and undone if they are infeasible, so the
+   * points aren't copied for every swap tested.
+   *
+   * Returns whether any swap was made.
+   */
+  private twoOpt(mode: 'first' | 'best', epsilon: number, neighbours: Map<Point, Point[]>, isFeasible: (points: Point[]) => boolean) {
+    const n = this.points.length;
+    const tour = new Tour(this.points);
+    let improved = false;
+    let best: { i: number, j: number, delta: number } | undefined;
+
+    // tests the swap reversing the points from i + 1 to j
+    const testSwap = (i: number, j: number) => {
+      if (i < 0 || j < i + 2 || j > n - 1) {
+        return;
+      }
+
+      const delta = tour.swapDelta(i, j);
+      if (delta >= -epsilon || (best && delta >= best.delta)) {
+        return;
+      }
+
+      tour.reverse(i, j);
+      const feasible = isFeasible(this.points);
+      if (!feasible || mode === 'best') {
+        tour.reverse(i, j);
+      }
+      if (!feasible) {
+        return;
+      }
+
+      if (mode === 'first') {
+        improved = true;
+      } else {
+        best = { i, j, delta };
+      }
+    };
+
+    for (let k = 0; k < n; k++) {
+      const point = this.points[k];
+      const next = this.points[(k + 1) % n];
+      const prev = this.points[(k + n - 1) % n];
+      const position = k === 0 ? n : k; // the depot is also the end of the route
+
+      for (const neighbour of neighbours.get(point) || []) {
+        const m = tour.positionOf(neighbour);
+        if (typeof m === 'undefined') {
+          continue; // on another route
+        }
+
+        // new edge from the point replaces its outgoing edge
+        if (point.getDistanceTo(neighbour) < point.getDistanceTo(next)) {
+          testSwap(k, m);
+          testSwap(m, k);
+        }
+
+        // new edge to the point replaces its incoming edge
+        if (neighbour.getDistanceTo(point) < prev.getDistanceTo(point)) {
+          testSwap(m - 1, position - 1);
+          testSwap(position - 1, m - 1);
+        }
+      }
+    }
+
+    if (best) {
+      tour.reverse(best.i, best.j);
+      improved = true;
+    }
+
+    return improved;
+  }
+}
+
+/**
+ * Positions of points in a route, and cumulative distances along it in both
+ * directions. Used to find the change in distance of a two-opt swap in
+ * constant time, even if costs are asymmetric. Two-opt swaps are made on
+ * the route's points in place
+ */
+class Tour {
+  private positions = new Map<Point, number>();
+  private forward: number[] = [0]; // forward[k] = distance from the depot to point k
+  private backward: number[] = [0]; // backward[k] = distance from point k back to the depot, against the route
+
+  constructor(private points: Point[]) {
+    points.forEach((point, index) => this.positions.set(point, index));
+    this.updateDistances(1);
+  }
+
+  /**
+   * Position of a point in the route, or undefined if it isn't on the route
+   * @param point
+   */
+  public positionOf(point: Point) {
+    return this.positions.get(point);
+  }
+
+  /**
+   * Reverses the points from i + 1 to j. Only the positions of the reversed
+   * points and the distances from the first reversed point on are updated
+   * @param i
+   * @param j
+   */
+  public reverse(i: number, j: number) {
+    const points = this.points;
+    for (let a = i + 1, b = j; a < b; a++, b--) {
+      const point = points[a];
+      points[a] = points[b];
+      points[b] = point;
+    }
+    for (let k = i + 1; k <= j; k++) {
+      this.positions.set(points[k], k);
+    }
+    this.updateDistances(i + 1);
+  }
+
+  /**
+   * Change in route distance from reversing the points from i + 1 to j
+   * @param i
+   * @param j
+   */
+  public swapDelta(i: number, j: number) {
+    const points = this.points;
+    const next = points[(j + 1) % points.length];
+
+    const before = points[i].getDistanceTo(points[i + 1]) +
+      this.forward[j] - this.forward[i + 1] +
+      points[j].getDistanceTo(next);
+    const after = points[i].getDistanceTo(points[j]) +
+      this.backward[j] - this.backward[i + 1] +
+      points[i + 1].getDistanceTo(next);
+
+    return after - before;
+  }
+
+  /**
+   * Recalculates the cumulative distances from a point to the end of the route
+   * @param start
+   */
+  private updateDistances(start: number) {
+    const points = this.points;
+    for (let k = start; k < points.length; k++) {
+      this.forward[k] = this.forward[k - 1] + points[k - 1].getDistanceTo(points[k]);
+      this.backward[k] = this.backward[k - 1] + points[k].getDistanceTo(points[k - 1]);
+    }
+  }
+}
+
+/**
+ * Finds the closest points to each point. Only the closest few are kept
+ * while the other points are scanned, rather than sorting all of them
+ * @param points
+ * @param count Number of neighbours to find for each point
+ */
+export function findNeighbours(points: Point[], count: number) {
+  const neighbours = new Map<Point, Point[]>();
+
+  for (const point of points) {
+    const nearest: Point[] = [];
+    const distances: number[] = []; // distance to each of the nearest points
+
+    for (const other of points) {
+      const distance = point.getDistanceTo(other);
+      if (other === point || (nearest.length >= count && distance >= distances[nearest.length - 1])) {
+        continue;
+      }
+
+      // insert in order of distance, dropping the furthest if there are too many
+      let index = nearest.length;
+      while (index > 0 && distances[index - 1] > distance) {
+        index--;
+      }
+      nearest.splice(index, 0, other);
+      distances.splice(index, 0, distance);
+      if (nearest.length > count) {
+        nearest.pop();
+        distances.pop();
+      }
+    }
+
+    neighbours.set(point, nearest);
+  }
+
+  return neighbours;
+}
+
+/**
+ * Cost from the depot (the first point) through the points and back to the depot
+ * @param points Points in the order they are visited
+ */
+export function routeDistance(points: Point[]): number {
+  let cost = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    cost += points[i - 1].getDistanceTo(points[i]);
+  }
+
+  if (points.length > 1) {
+    cost += points[points.length - 1].getDistanceTo(points[0]);
+  }
+
+  return cost;
+}
+
+/**
+ * Total demand of all the points after the depot (the first point)
+ * @param points Points in the order they are visited
+ */
+export function routeDemand(points: Point[]): number {
+  return points.reduce((sum, point, index) => sum + (index === 0 ? 0 : point.demand), 0);
+}
+
+/**
+ * Load on board when leaving each point. The vehicle leaves the depot (the
+ * first point) carrying the demand of every point it delivers to from the
+ * depot. It collects the load of each pickup and drops it off at the
+ * pickup's delivery
+ * @param points Points in the order they are visited
+ */
+export function routeLoads(points: Point[]): number[] {
+  let load = points.reduce((sum, point, index) => sum + (index === 0 || point.delivery ? 0 : point.demand), 0);
+
+  return points.map((point, index) => {
+    if (index > 0) {
+      load += point.delivery ? point.demand : -(point.pickup ? point.pickup.demand : point.demand);
+    }
+    return load;
+  });
+}
+
+/**
+ * Determines whether each pickup is visited before its delivery, with both
+ * on the route
+ * @param points Points in the order they are visited
+ */
+export function isInPairOrder(points: Point[]): boolean {
+  const positions = new Map<Point, number>();
+  points.forEach((point, index) => positions.set(point, index));
+
+  return points.every((point, index) => {
+    const partner = point.delivery || point.pickup;
+    if (!partner) {
+      return true;
+    }
+
+    const partnerIndex = positions.get(partner);
+    return typeof partnerIndex !== 'undefined' && (point.delivery ? partnerIndex > index : partnerIndex < index);
+  });
+}
+
+/**
+ * Energy used travelling from the depot (the first point) through the
+ * points and back to the depot, carrying the load on board along each leg
+ * @param points Points in the order they are visited
+ * @param model
+ */
+export function routeEnergy(points: Point[], model: EnergyModel): number {
+  const loads = routeLoads(points);
+  let energy = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    energy += model.getEnergy(points[i - 1].getDistanceTo(points[i]), loads[i - 1], points[i].serviceDuration);
+  }
+
+  if (points.length > 1) {
+    energy += model.getEnergy(points[points.length - 1].getDistanceTo(points[0]), loads[loads.length - 1], 0);
+  }
+
+  return energy;
+}
+
+/**
+ * Calculates the planned arrival time at each of the given points.
+ * The first point is where the vehicle starts at time 0. If the vehicle
+ * arrives before a point's earliest time, it waits before serving it.
+ * @param points Points in the order they are visited
+ * @param speed Vehicle speed
+ */
+export function arrivalTimes(points: Point[], speed: number): number[] {
+  const arrivals = [0];
+  let departure = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const arrival = departure + points[i - 1].getDistanceTo(points[i]) / speed;
+    arrivals.push(arrival);
+    departure = Math.max(arrival, points[i].earliest) + points[i].serviceDuration;
+  }
+
+  return arrivals;
+}
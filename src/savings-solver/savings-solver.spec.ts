@@ -0,0 +1,506 @@
+import { EuclideanCostProvider, MatrixCostProvider } from '../cost-provider/cost-provider';
+import { LinearEnergyModel } from '../energy/energy';
+import { createRandom } from './random';
+import { CWWeights, ClarkeWrightProblem } from './savings-solver';
+
+const weights: CWWeights = {
+  adjacency: 1,
+  asymmetry: 0.2,
+  demand: 0.4,
+  minSavings: 0,
+};
+
+describe('ClarkeWrightProblem', () => {
+  describe('with a cost matrix', () => {
+    it('throws if a customer is not in the matrix', () => {
+      const costProvider = new MatrixCostProvider({ locations: [[0, 0], [1, 0]], costs: [[0, 1], [1, 0]] });
+
+      expect(() => new ClarkeWrightProblem({
+        customers: [{ lon: 1, lat: 0, demand: 1 }, { lon: 2, lat: 0, demand: 1 }],
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 10,
+        costProvider,
+      })).toThrow('Location [2, 0] is not in the cost matrix');
+    });
+
+    it('throws if obstacles are given, as their corners are never in the matrix', () => {
+      const costProvider = new MatrixCostProvider({ locations: [[0, 0], [1, 0]], costs: [[0, 1], [1, 0]] });
+
+      expect(() => new ClarkeWrightProblem({
+        customers: [{ lon: 1, lat: 0, demand: 1 }],
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 10,
+        costProvider,
+        obstacles: [{ type: 'Polygon', coordinates: [[[0.4, -1], [0.6, -1], [0.6, 1], [0.4, 1], [0.4, -1]]] }],
+      })).toThrow('ClarkeWrightProblem can\'t avoid obstacles with a MatrixCostProvider');
+    });
+
+    it('serves customers that can only reach the depot on their own routes', () => {
+      const costProvider = new MatrixCostProvider({
+        locations: [[0, 0], [1, 0], [2, 0]],
+        costs: [
+          [0, 1, 2],
+          [1, 0, Infinity],
+          [2, Infinity, 0],
+        ],
+      });
+      const problem = new ClarkeWrightProblem({
+        customers: [{ lon: 1, lat: 0, demand: 1 }, { lon: 2, lat: 0, demand: 1 }],
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 10,
+        costProvider,
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(2);
+      expect(solution.statistics.servedCustomers).toBe(2);
+      expect(solution.statistics.totalDistance).toBe(6);
+    });
+  });
+
+  it('reports every customer it can\'t serve, and why', () => {
+    const far = { lon: 20, lat: 0, demand: 1 };
+    const heavy = { lon: -1, lat: 0, demand: 5 };
+    const problem = new ClarkeWrightProblem({
+      customers: [{ lon: 1, lat: 0, demand: 1 }, far, { lon: 0, lat: 1, demand: 1 }, heavy],
+      depot: { lon: 0, lat: 0 },
+      maxDistance: 10,
+      capacity: 4,
+      costProvider: new EuclideanCostProvider(),
+      seed: 1,
+    });
+
+    const solution = problem.solve(weights);
+
+    expect(solution.unservedCustomers).toHaveLength(2);
+    expect(solution.unservedCustomers).toContainEqual({ customer: far, reason: 'out of range' });
+    expect(solution.unservedCustomers).toContainEqual({ customer: heavy, reason: 'over capacity' });
+    expect(solution.statistics).toMatchObject({ customers: 4, servedCustomers: 2, unservedCustomers: 2, routes: 1 });
+  });
+
+  it('marks customers out of range when no costs between them are finite', () => {
+    const problem = new ClarkeWrightProblem({
+      customers: [{ lon: 1, lat: 0, demand: 1 }, { lon: 1.5, lat: 0, demand: 1 }],
+      depot: { lon: 0, lat: 0 },
+      maxDistance: 10,
+      costProvider: new EuclideanCostProvider(),
+      obstacles: [{ type: 'Polygon', coordinates: [[[0.5, -1], [2, -1], [2, 1], [0.5, 1], [0.5, -1]]] }],
+      seed: 1,
+    });
+
+    const solution = problem.solve(weights);
+
+    expect(solution.routes).toHaveLength(0);
+    expect(solution.unservedCustomers.map(unserved => unserved.reason)).toEqual(['out of range', 'out of range']);
+  });
+
+  it('treats a boolean option as whether to optimise', () => {
+    const options = {
+      customers: [{ lon: 2, lat: 0, demand: 1 }, { lon: 2, lat: 1, demand: 1 }, { lon: -2, lat: 0, demand: 1 }],
+      depot: { lon: 0, lat: 0 },
+      maxDistance: 10,
+      costProvider: new EuclideanCostProvider(),
+      seed: 1,
+    };
+
+    const solution = new ClarkeWrightProblem(options).solve(weights, false);
+
+    expect(solution).toEqual(new ClarkeWrightProblem(options).solve(weights, { optimise: false }));
+    expect(solution.statistics.improvementSavings).toBe(0);
+  });
+
+  describe('with a capacity', () => {
+    const customers = [
+      { lon: 1, lat: 0, demand: 2 },
+      { lon: 1, lat: 1, demand: 2 },
+      { lon: 0, lat: 1, demand: 2 },
+      { lon: -1, lat: 1, demand: 2 },
+    ];
+
+    it('keeps the demand of each route within the capacity', () => {
+      const problem = new ClarkeWrightProblem({
+        customers,
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 100,
+        capacity: 4,
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(2);
+      expect(solution.routes.every(route => route.load <= 4)).toBe(true);
+      expect(solution.statistics.totalLoad).toBe(8);
+    });
+
+    it('leaves customers with more demand than the capacity unserved', () => {
+      const heavy = { lon: 2, lat: 0, demand: 5 };
+      const problem = new ClarkeWrightProblem({
+        customers: [...customers, heavy],
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 100,
+        capacity: 4,
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.unservedCustomers).toEqual([{ customer: heavy, reason: 'over capacity' }]);
+      expect(solution.statistics.servedCustomers).toBe(4);
+    });
+  });
+
+  describe('with time windows', () => {
+    const options = {
+      depot: { lon: 0, lat: 0 },
+      maxDistance: 100,
+      speed: 1,
+      costProvider: new EuclideanCostProvider(),
+      seed: 1,
+    };
+
+    it('only joins customers that can both be served in time', () => {
+      const problem = new ClarkeWrightProblem({
+        ...options,
+        customers: [{ lon: 1, lat: 0, demand: 1, latest: 1.5 }, { lon: -1, lat: 0, demand: 1, latest: 1.5 }],
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(2);
+      expect(solution.routes.map(route => route.arrivals)).toEqual([[0, 1, 2], [0, 1, 2]]);
+    });
+
+    it('waits until customers can be served', () => {
+      const problem = new ClarkeWrightProblem({
+        ...options,
+        customers: [{ lon: 1, lat: 0, demand: 1, earliest: 5, serviceDuration: 1 }],
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes[0].arrivals).toEqual([0, 1, 7]);
+    });
+
+    it('leaves customers that can\'t be reached in time unserved', () => {
+      const late = { lon: 3, lat: 0, demand: 1, latest: 2 };
+      const problem = new ClarkeWrightProblem({
+        ...options,
+        customers: [{ lon: 1, lat: 0, demand: 1 }, late],
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.unservedCustomers).toEqual([{ customer: late, reason: 'time window' }]);
+    });
+
+    it('ignores time windows if no speed is set', () => {
+      const problem = new ClarkeWrightProblem({
+        ...options,
+        speed: undefined,
+        customers: [{ lon: 3, lat: 0, demand: 1, latest: 2 }],
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.unservedCustomers).toHaveLength(0);
+      expect(solution.routes[0].arrivals).toBeUndefined();
+    });
+  });
+
+  describe('with several depots', () => {
+    const west = { lon: -10, lat: 0 };
+    const east = { lon: 10, lat: 0 };
+
+    it('serves each customer from its closest depot', () => {
+      const problem = new ClarkeWrightProblem({
+        customers: [
+          { lon: -9, lat: 1, demand: 1 },
+          { lon: 9, lat: 1, demand: 1 },
+          { lon: -9, lat: -1, demand: 1 },
+          { lon: 9, lat: -1, demand: 1 },
+        ],
+        depots: [west, east],
+        maxDistance: 100,
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(2);
+      solution.routes.forEach(route => {
+        const side = Math.sign(route.depot.lon);
+        expect(route.points[0]).toEqual([route.depot.lon, route.depot.lat]);
+        expect(route.points[route.points.length - 1]).toEqual([route.depot.lon, route.depot.lat]);
+        expect(route.points.every(point => Math.sign(point[0]) === side)).toBe(true);
+      });
+      expect(solution.routes.map(route => route.depot).sort((a, b) => a.lon - b.lon)).toEqual([west, east]);
+    });
+
+    it('leaves every customer unserved without a depot', () => {
+      const problem = new ClarkeWrightProblem({
+        customers: [{ lon: 1, lat: 0, demand: 1 }],
+        maxDistance: 100,
+        costProvider: new EuclideanCostProvider(),
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(0);
+      expect(solution.unservedCustomers[0].reason).toBe('out of range');
+    });
+  });
+
+  describe('with a seed', () => {
+    const random = createRandom(3);
+    const customers: Array<{ lon: number, lat: number, demand: number }> = [];
+    for (let i = 0; i < 20; i++) {
+      customers.push({ lon: random() * 10 - 5, lat: random() * 10 - 5, demand: 1 });
+    }
+    const options = {
+      customers,
+      depot: { lon: 0, lat: 0 },
+      maxDistance: 15,
+      costProvider: new EuclideanCostProvider(),
+    };
+
+    it('gives the same solution for the same seed', () => {
+      const solution = new ClarkeWrightProblem({ ...options, seed: 5 }).solve(weights);
+
+      expect(solution.seed).toBe(5);
+      expect(new ClarkeWrightProblem({ ...options, seed: 5 }).solve(weights)).toEqual(solution);
+    });
+
+    it('returns the best solution of the restarts', () => {
+      const seeds = [5, 6, 7, 8];
+      const solutions = seeds.map(seed => new ClarkeWrightProblem({ ...options, seed }).solve(weights));
+      const shortest = Math.min(...solutions.map(solution => solution.statistics.totalDistance));
+
+      const solution = new ClarkeWrightProblem({ ...options, seed: 5, restarts: 4, objective: 'distance' }).solve(weights);
+
+      expect(seeds).toContain(solution.seed);
+      expect(solution.statistics.totalDistance).toBe(shortest);
+    });
+  });
+
+  describe('in metric units', () => {
+    const options = {
+      customers: [{ lon: 0, lat: 0.01, demand: 1 }, { lon: 0.01, lat: 0, demand: 1 }],
+      depot: { lon: 0, lat: 0 },
+      seed: 1,
+    };
+
+    it('measures distances in degrees by default', () => {
+      const solution = new ClarkeWrightProblem({ ...options, maxDistance: 0.1 }).solve(weights);
+
+      expect(solution.statistics.totalDistance).toBeCloseTo(0.01 * (2 + Math.SQRT2), 4);
+    });
+
+    it('measures distances and speeds in the given units', () => {
+      const solution = new ClarkeWrightProblem({ ...options, units: 'kilometers', maxDistance: 5, speed: 1 }).solve(weights);
+
+      expect(solution.statistics.totalDistance).toBeCloseTo(1.112 * (2 + Math.SQRT2), 1);
+      expect(solution.routes[0].arrivals![1]).toBeCloseTo(1.112, 2);
+    });
+
+    it('leaves customers beyond the range in the given units unserved', () => {
+      const solution = new ClarkeWrightProblem({ ...options, units: 'kilometers', maxDistance: 2 }).solve(weights);
+
+      expect(solution.routes).toHaveLength(0);
+      expect(solution.statistics.unservedCustomers).toBe(2);
+    });
+  });
+
+  describe('with energy', () => {
+    const customers = [{ lon: 1, lat: 0, demand: 5 }, { lon: 2, lat: 0, demand: 5 }];
+
+    it('joins routes within the energy budget', () => {
+      const problem = new ClarkeWrightProblem({
+        customers,
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 100,
+        energy: 5,
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(1);
+      expect(solution.routes[0].energy).toBeCloseTo(4);
+    });
+
+    it('only joins routes if the vehicle has the energy to carry the payload', () => {
+      // depot -> (1, 0) carrying 10 -> (2, 0) carrying 5 -> depot uses 2 + 1.5 + 2 = 5.5
+      const problem = new ClarkeWrightProblem({
+        customers,
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 100,
+        energy: 5,
+        energyModel: new LinearEnergyModel({ perPayloadDistance: 0.1 }),
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(2);
+      expect(solution.routes.map(route => route.energy).sort()).toEqual([2.5, 5]);
+      expect(solution.statistics.servedCustomers).toBe(2);
+    });
+
+    it('leaves customers the vehicle has no energy to reach unserved', () => {
+      const problem = new ClarkeWrightProblem({
+        customers: [{ lon: 3, lat: 0, demand: 1 }],
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 100,
+        energy: 5,
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.unservedCustomers[0].reason).toBe('out of range');
+    });
+  });
+
+  describe('with a fleet', () => {
+    const customers = [
+      { lon: 2, lat: 0, demand: 1 },
+      { lon: 0, lat: 2, demand: 1 },
+      { lon: -2, lat: 0, demand: 1 },
+      { lon: 0, lat: -2, demand: 1 },
+    ];
+
+    it('assigns each route the smallest vehicle it fits', () => {
+      const problem = new ClarkeWrightProblem({
+        customers: customers.slice(0, 2),
+        depot: { lon: 0, lat: 0 },
+        fleet: [{ name: 'truck', maxDistance: 100 }, { name: 'van', maxDistance: 10 }],
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(1);
+      expect(solution.routes[0].vehicle!.name).toBe('van');
+    });
+
+    it('only joins routes while there are vehicles to serve them', () => {
+      // pairs of customers need the only truck, but each customer on its own fits a van
+      const problem = new ClarkeWrightProblem({
+        customers,
+        depot: { lon: 0, lat: 0 },
+        fleet: [{ name: 'truck', maxDistance: 8, count: 1 }, { name: 'van', maxDistance: 5 }],
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.uncoveredRoutes).toHaveLength(0);
+      expect(solution.statistics.servedCustomers).toBe(4);
+      expect(solution.routes.filter(route => route.vehicle!.name === 'truck')).toHaveLength(1);
+    });
+
+    it('leaves routes without a vehicle once the fleet is used up', () => {
+      const problem = new ClarkeWrightProblem({
+        customers,
+        depot: { lon: 0, lat: 0 },
+        fleet: [{ name: 'van', maxDistance: 5, count: 3 }],
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(3);
+      expect(solution.uncoveredRoutes).toHaveLength(1);
+      expect(solution.unservedCustomers).toEqual([{ customer: solution.unservedCustomers[0].customer, reason: 'no vehicle available' }]);
+    });
+
+    it('keeps routes within the fleet when improving them', () => {
+      const problem = new ClarkeWrightProblem({
+        customers,
+        depot: { lon: 0, lat: 0 },
+        fleet: [{ name: 'truck', maxDistance: 8, count: 1 }, { name: 'van', maxDistance: 5 }],
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights, { improve: true });
+
+      expect(solution.uncoveredRoutes).toHaveLength(0);
+      expect(solution.routes.filter(route => route.vehicle!.name === 'truck')).toHaveLength(1);
+    });
+  });
+
+  describe('with pickups and deliveries', () => {
+    /**
+     * Positions a route visits, to look up the order of customers in it
+     * @param route
+     */
+    const positionsOf = (route: { points: Array<[number, number]> }) => route.points.map(point => point.join());
+
+    it('visits each pickup before its delivery on the same route', () => {
+      const random = createRandom(12);
+      const requests = [];
+      for (let i = 0; i < 8; i++) {
+        requests.push({
+          pickup: { lon: random() * 10 - 5, lat: random() * 10 - 5, demand: 1 },
+          delivery: { lon: random() * 10 - 5, lat: random() * 10 - 5, demand: 1 },
+        });
+      }
+      const problem = new ClarkeWrightProblem({
+        customers: [],
+        requests,
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 60,
+        capacity: 3,
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights, { improve: true });
+
+      expect(solution.statistics.servedCustomers).toBe(16);
+      expect(solution.routes.length).toBeLessThan(8);
+      requests.forEach(request => {
+        const route = solution.routes.find(candidate => positionsOf(candidate).indexOf([request.pickup.lon, request.pickup.lat].join()) !== -1);
+        const positions = positionsOf(route!);
+        expect(positions.indexOf([request.delivery.lon, request.delivery.lat].join()))
+          .toBeGreaterThan(positions.indexOf([request.pickup.lon, request.pickup.lat].join()));
+      });
+    });
+
+    it('only limits the most load on board at once by the capacity', () => {
+      const problem = new ClarkeWrightProblem({
+        customers: [],
+        requests: [
+          { pickup: { lon: 1, lat: 0, demand: 2 }, delivery: { lon: 2, lat: 0, demand: 0 } },
+          { pickup: { lon: 3, lat: 0, demand: 2 }, delivery: { lon: 4, lat: 0, demand: 0 } },
+        ],
+        depot: { lon: 0, lat: 0 },
+        maxDistance: 10,
+        capacity: 2,
+        costProvider: new EuclideanCostProvider(),
+        seed: 1,
+      });
+
+      const solution = problem.solve(weights);
+
+      expect(solution.routes).toHaveLength(1);
+      expect(solution.routes[0].points).toEqual([[0, 0], [1, 0], [2, 0], [3, 0], [4, 0], [0, 0]]);
+      expect(solution.routes[0].loads).toEqual([0, 2, 0, 2, 0, 0]);
+      expect(solution.routes[0].load).toBe(4);
+      expect(solution.statistics.customers).toBe(4);
+    });
+  });
+});
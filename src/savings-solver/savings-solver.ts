@@ -1,4 +1,11 @@
-import getDistance from '@turf/distance';
+import { Units } from '@turf/helpers';
+import { CostProvider, HaversineCostProvider, MatrixCostProvider, ObstacleCostProvider, WindCostProvider } from '../cost-provider/cost-provider';
+import { WindField } from '../wind/wind';
+import { Obstacle } from '../obstacles/obstacles';
+import { EnergyModel, LinearEnergyModel } from '../energy/energy';
+import { createRandom, shuffle } from './random';
+import { Point, Route, arrivalTimes, findNeighbours, isInPairOrder, routeDemand, routeDistance, routeEnergy, routeLoads } from './route';
+import { improveRoutes } from './local-search';
 
 /**
  * Options for a Clarke Wright problem
@@ -6,21 +13,299 @@ import getDistance from '@turf/distance';
 export interface ClarkeWrightProblemOptions {
   /** List of points to visit */
   customers: Customer[];
+
+  /**
+   * Loads to collect from one customer and drop off at another. Each pickup
+   * is visited before its delivery, on the same route
+   */
+  requests?: PickupDeliveryRequest[];
   
-  /** Depot location (lon, lat) */
-  depot: { lon: number, lat: number };
+  /** Depot location (lon, lat). Use depots for more than one depot */
+  depot?: Depot;
+
+  /** Depot locations (lon, lat). Each customer is served from its closest depot */
+  depots?: Depot[];
+
+  /**
+   * Maximum distance (in units) that the vehicle can travel (d = vt).
+   * Required unless a fleet is given
+   */
+  maxDistance?: number;
+
+  /** Maximum total demand a vehicle can carry on a single route. Unlimited if not set */
+  capacity?: number;
+
+  /** Energy (such as battery charge) a vehicle has for a single route. Unlimited if not set */
+  energy?: number;
+
+  /**
+   * Works out the energy a route uses from its distances, the demand still
+   * being carried and service durations. Defaults to one unit of energy per unit of distance
+   */
+  energyModel?: EnergyModel;
+
+  /**
+   * Vehicles available to serve the routes. If not set, an unlimited number
+   * of vehicles with maxDistance range and the given capacity is assumed
+   */
+  fleet?: VehicleType[];
+
+  /**
+   * Vehicle speed (in units per second). Used to plan arrival times.
+   * Customer time windows are only enforced if this is set
+   */
+  speed?: number;
 
-  /** Maximum distance (in degrees) that the vehicle can travel (d = vt) */
+  /**
+   * Seed for the random customer order. The same seed always gives the
+   * same solution. A random seed is used if not set
+   */
+  seed?: number;
+
+  /**
+   * Number of times to solve the problem, each with a differently seeded
+   * customer order. The best solution is returned (default 1)
+   */
+  restarts?: number;
+
+  /** How to choose the best solution between restarts (default 'served') */
+  objective?: ClarkeWrightObjective;
+
+  /**
+   * Distance unit of maxDistance, speed and the returned distances.
+   * Defaults to degrees for backwards compatibility
+   */
+  units?: Units;
+
+  /**
+   * Provides the travel cost between locations. Must return costs in units.
+   * Defaults to great circle distance. A MatrixCostProvider must include the
+   * depots and every customer
+   */
+  costProvider?: CostProvider;
+
+  /**
+   * Wind velocity in units per second. Only used if the speed is set, which
+   * is then the speed through the air. Route distances become the distance
+   * flown through the air, and arrival times use the speed over the ground
+   */
+  wind?: WindField;
+
+  /**
+   * Areas (GeoJSON polygons) vehicles can't travel through. Legs detour
+   * around them, and customers inside them can't be served. Can't be used
+   * with a MatrixCostProvider, as the obstacle corners are never in the matrix
+   */
+  obstacles?: Obstacle[];
+
+  /** Options for optimising routes with two-opt */
+  twoOpt?: TwoOptOptions;
+}
+
+/**
+ * Options for optimising routes with two-opt
+ */
+export interface TwoOptOptions {
+  /**
+   * first - make each improving swap as soon as it is found
+   * best - make only the best swap found in each pass over the route
+   * (default first)
+   */
+  mode?: 'first' | 'best';
+
+  /** Smallest decrease in distance that counts as an improvement (default 1e-9) */
+  epsilon?: number;
+
+  /**
+   * Number of closest points to each point that swaps are tested with.
+   * The closest points are found once for the whole problem, so points
+   * on other routes use up some of them.
+   * Fewer neighbours makes each pass faster on long routes (default 16).
+   * Routes are only guaranteed to reach a two-opt local optimum when costs
+   * are symmetric, as swaps are only tested if they create a shorter edge
+   */
+  neighbours?: number;
+
+  /** Maximum number of passes over each route (default 100) */
+  maxPasses?: number;
+}
+
+/**
+ * Options for solving a Clarke Wright problem
+ */
+export interface ClarkeWrightSolveOptions {
+  /** Whether to remove crossing edges from routes with two-opt (default true) */
+  optimise?: boolean;
+
+  /** Whether to move customers between routes once they have been joined (default false) */
+  improve?: boolean;
+}
+
+/**
+ * Chooses the best solution between restarts:
+ * - served - most customers served, then shortest total distance
+ * - distance - shortest total distance, then most customers served
+ * - routes - fewest routes, then most customers served, then shortest total distance
+ * - a compare function returning a negative number if solution a is better than b
+ */
+export type ClarkeWrightObjective = 'served' | 'distance' | 'routes' |
+  ((a: ClarkeWrightSolution, b: ClarkeWrightSolution) => number);
+
+/**
+ * A type of vehicle in the fleet
+ */
+export interface VehicleType {
+  /** Name used to identify the vehicle type */
+  name?: string;
+
+  /** Number of vehicles of this type. Unlimited if not set */
+  count?: number;
+
+  /** Maximum distance (in problem units) that the vehicle can travel (d = vt) */
   maxDistance: number;
+
+  /** Maximum total demand the vehicle can carry. Defaults to the problem capacity */
+  capacity?: number;
+
+  /** Energy the vehicle has for a route. Defaults to the problem energy */
+  energy?: number;
+}
+
+/**
+ * A route found by the Clarke Wright solver
+ */
+export interface ClarkeWrightRoute {
+  /** Route points (lon, lat), starting and ending at the depot */
+  points: Array<[number, number]>;
+
+  /** Positions (lon, lat) travelled through, including any detours around obstacles */
+  path: Array<[number, number]>;
+
+  /** Total route distance (in problem units) */
+  distance: number;
+
+  /**
+   * Total demand served by the route. Each pickup's load is counted once, so
+   * this isn't the most carried at once, which is the largest of the loads
+   */
+  load: number;
+
+  /** Load on board when leaving each point, including the load brought back to the depot */
+  loads: number[];
+
+  /** Energy used by the route */
+  energy: number;
+
+  /** Planned arrival time at each point. Only set if the vehicle speed is set */
+  arrivals?: number[];
+
+  /** Depot that serves the route */
+  depot: Depot;
+
+  /** Vehicle assigned to the route. Not set if no vehicle is available */
+  vehicle?: VehicleType;
+}
+
+/**
+ * Solution to a Clarke Wright problem
+ */
+export interface ClarkeWrightSolution {
+  /** Routes with a vehicle assigned, sorted in order of best demand vs distance */
+  routes: ClarkeWrightRoute[];
+
+  /** Routes that a vehicle could serve, but all suitable vehicles are already in use */
+  uncoveredRoutes: ClarkeWrightRoute[];
+
+  /** Customers that aren't served by any of the routes */
+  unservedCustomers: UnservedCustomer[];
+
+  /** Summary of the solution */
+  statistics: ClarkeWrightStatistics;
+
+  /** Seed of the customer order that produced the solution */
+  seed: number;
+}
+
+/**
+ * Why a customer could not be served
+ */
+export type UnservedReason = 'out of range' | 'over capacity' | 'time window' | 'no vehicle available';
+
+/**
+ * A customer that isn't served by any route
+ */
+export interface UnservedCustomer {
+  /** The customer as given in the problem options */
+  customer: Customer;
+
+  /** Why the customer could not be served */
+  reason: UnservedReason;
+}
+
+/**
+ * Summary statistics of a Clarke Wright solution
+ */
+export interface ClarkeWrightStatistics {
+  /**
+   * Number of customers in the problem. The pickup and delivery of a
+   * request count as two customers
+   */
+  customers: number;
+
+  /** Number of customers served by the routes */
+  servedCustomers: number;
+
+  /** Number of customers that could not be served */
+  unservedCustomers: number;
+
+  /** Number of routes with a vehicle assigned */
+  routes: number;
+
+  /** Total distance of all routes */
+  totalDistance: number;
+
+  /** Total demand served by all routes, the sum of each route's load */
+  totalLoad: number;
+
+  /** Distance saved by moving customers between routes after joining them (0 if not enabled) */
+  improvementSavings: number;
+}
+
+/**
+ * Depot location
+ */
+export interface Depot {
+  lon: number;
+  lat: number;
 }
 
 /**
  * Interface for points
  */
-interface Customer {
+export interface Customer {
   lon: number;
   lat: number;
   demand: number;
+
+  /** Earliest time (in seconds after leaving the depot) the customer can be served */
+  earliest?: number;
+
+  /** Latest time (in seconds after leaving the depot) the customer can be served */
+  latest?: number;
+
+  /** How long (in seconds) the vehicle spends serving the customer */
+  serviceDuration?: number;
+}
+
+/**
+ * A load collected from one customer and dropped off at another
+ */
+export interface PickupDeliveryRequest {
+  /** Where the load is collected. Its demand is the size of the load */
+  pickup: Customer;
+
+  /** Where the load is dropped off. Its demand is ignored */
+  delivery: Customer;
 }
 
 /**
@@ -50,62 +335,162 @@ export interface CWWeights {
  */
 export class ClarkeWrightProblem {
   private points: Point[] = [];
-  private maxDistance: number;
-  private depot: Point;
+  private fleet: VehicleType[]; // vehicle types sorted from smallest to largest
+  private capacity: number; // capacity of vehicles that don't set their own
+  private energy: number; // energy of vehicles that don't set their own
+  private energyModel: EnergyModel;
+  private speed?: number;
+  private depots: Point[];
+  private depotLocations: Depot[]; // depot options in the same order as depots
   private solutions: Route[] = []; // list of found solution routes
   private savings: Savings[] = []; // stores route savings pairs
   private joinedRoutes: { [id: number]: boolean } = {}; // map of joined routes
   private averageDemand: number; // average demand of all points
   private maxDemand: number; // maximum demand of all points
   private maxPointDistance: number; // maximum distance between any two points
+  private seed: number; // seed of the first restart
+  private restarts: number;
+  private compareSolutions: (a: ClarkeWrightSolution, b: ClarkeWrightSolution) => number;
+  private costProvider: CostProvider;
+  private twoOptOptions: TwoOptOptions;
+  private neighbours: Map<Point, Point[]>; // closest points to each point, for two-opt
 
   /**
    * Constructs a Clarke Wright prolem with the given data points
    * @param points List of points to visit
-   * @param depot Depot location
-   * @param maxDistance Maximum distance the vehicle can travel. Must be in the same unit as x, y
+   * @param depots Depot locations
+   * @param maxDistance Maximum distance the vehicle can travel, in the problem units
+   * @throws If obstacles are given with a MatrixCostProvider
    */
   constructor(options: ClarkeWrightProblemOptions) {
+    if (options.obstacles && options.costProvider instanceof MatrixCostProvider) {
+      throw new Error('ClarkeWrightProblem can\'t avoid obstacles with a MatrixCostProvider, as the obstacle corners are never in the matrix');
+    }
+
     // set problem options
-    this.depot = new Point(options.depot.lon, options.depot.lat, 0);
-    this.maxDistance = options.maxDistance;
+    this.depotLocations = options.depots || (options.depot ? [options.depot] : []);
+    this.depots = this.depotLocations.map(depot => new Point(depot.lon, depot.lat, 0));
+    const costProvider = options.costProvider || new HaversineCostProvider(options.units || 'degrees');
+    const legCostProvider = options.wind && options.speed ? new WindCostProvider(options.wind, options.speed, costProvider) : costProvider;
+    this.costProvider = options.obstacles ? new ObstacleCostProvider(options.obstacles, legCostProvider) : legCostProvider;
+    this.twoOptOptions = options.twoOpt || {};
+    this.capacity = typeof options.capacity === 'undefined' ? Infinity : options.capacity;
+    this.energy = typeof options.energy === 'undefined' ? Infinity : options.energy;
+    this.energyModel = options.energyModel || new LinearEnergyModel();
+    this.fleet = (options.fleet || [{ maxDistance: typeof options.maxDistance === 'undefined' ? Infinity : options.maxDistance }])
+      .slice()
+      .sort((a, b) => a.maxDistance - b.maxDistance || this.vehicleCapacity(a) - this.vehicleCapacity(b) || this.vehicleEnergy(a) - this.vehicleEnergy(b));
+    this.speed = options.speed;
 
     this.points = options.customers.map(customer => Point.fromCustomer(customer));
-    this.points = this.points.sort(() => Math.random() - 0.5); // randomise point order TODO: make automated in solve
+    (options.requests || []).forEach(request => this.points.push(...Point.fromRequest(request)));
+
+    // point order is randomised for each restart in solve
+    this.seed = typeof options.seed === 'undefined' ? Math.floor(Math.random() * 4294967296) : options.seed;
+    this.restarts = Math.max(1, options.restarts || 1);
+    const objective = options.objective || 'served';
+    this.compareSolutions = typeof objective === 'function' ? objective : objectives[objective];
 
     // calculate static properties use throughout calculations
     // (max point distance, average demand, maximum demand)
+    // costs may be asymmetric, so each direction is calculated separately
     this.maxPointDistance = -Infinity;
     for (const point of this.points) {
       for (const otherPoint of this.points) {
-        const distance = getDistance([point.x, point.y], [otherPoint.x, otherPoint.y], { units: 'degrees' });
+        const distance = this.costProvider.getCost([point.x, point.y], [otherPoint.x, otherPoint.y]);
         point.setDistanceTo(otherPoint, distance);
-        if (distance > this.maxPointDistance) {
+        if (distance > this.maxPointDistance && isFinite(distance)) {
           this.maxPointDistance = distance;
         }
       }
 
-      const depotDistance = getDistance([point.x, point.y], [this.depot.x, this.depot.y], { units: 'degrees' });
-      point.setDistanceTo(this.depot, depotDistance);
-      this.depot.setDistanceTo(point, depotDistance);
+      for (const depot of this.depots) {
+        point.setDistanceTo(depot, this.costProvider.getCost([point.x, point.y], [depot.x, depot.y]));
+        depot.setDistanceTo(point, this.costProvider.getCost([depot.x, depot.y], [point.x, point.y]));
+      }
     }
 
+    // savings are scaled by the max point distance, so it must be finite and positive
+    // even if no two points can reach each other
+    if (!(this.maxPointDistance > 0)) {
+      this.maxPointDistance = 1;
+    }
+
+    this.neighbours = findNeighbours([...this.depots, ...this.points], this.twoOptOptions.neighbours || 16);
+
     this.averageDemand = this.points.reduce((sum, point) => sum + point.demand, 0) / this.points.length;
     this.maxDemand = this.points.reduce((max, point) => max < point.demand ? point.demand : max, -Infinity);
   }
 
   /**
    * Solves the problem, returning a list of possible routes sorted in order
-   * of best demand vs distance
+   * of best demand vs distance. Each route is assigned the smallest available
+   * vehicle it fits. Routes left without a vehicle are returned separately,
+   * along with the customers that could not be served and why.
+   * If restarts are set, returns the best solution by the objective
+   * @param weights Clarke Wright weight
+   * @param options Whether to optimise and improve the routes. A boolean only sets optimise
+   */
+  public solve(weights: CWWeights, options: boolean | ClarkeWrightSolveOptions = {}): ClarkeWrightSolution {
+    const { optimise = true, improve = false } = typeof options === 'boolean' ? { optimise: options } : options;
+    let bestSolution: ClarkeWrightSolution | undefined;
+
+    for (let restart = 0; restart < this.restarts; restart++) {
+      // the order of the points changes which routes get joined first
+      const seed = (this.seed + restart) >>> 0;
+      const points = shuffle(this.points.slice(), createRandom(seed));
+
+      const solution = this.solveOrdered(weights, optimise, improve, points, seed);
+      if (!bestSolution || this.compareSolutions(solution, bestSolution) < 0) {
+        bestSolution = solution;
+      }
+    }
+
+    return bestSolution as ClarkeWrightSolution;
+  }
+
+  /**
+   * Solves the problem for a single order of points
    * @param weights Clarke Wright weight
    * @param optimise
+   * @param improve
+   * @param points Points in the order to create routes in
+   * @param seed Seed the point order was created with
    */
-  public solve(weights: CWWeights, optimise = true): Array<{
-    points: Array<[number, number]>;
-    distance: number;
-  }> {
-    // first, create one route per point
-    this.solutions = this.points.map(point => new Route(point, this.depot));
+  private solveOrdered(weights: CWWeights, optimise: boolean, improve: boolean, points: Point[], seed: number): ClarkeWrightSolution {
+    const solution: ClarkeWrightSolution = {
+      routes: [],
+      uncoveredRoutes: [],
+      unservedCustomers: [],
+      statistics: {
+        customers: this.points.length,
+        servedCustomers: 0,
+        unservedCustomers: 0,
+        routes: 0,
+        totalDistance: 0,
+        totalLoad: 0,
+        improvementSavings: 0,
+      },
+      seed,
+    };
+
+    if (!this.depots.length) {
+      solution.unservedCustomers = this.points.map(point => ({ customer: point.customer, reason: 'out of range' as UnservedReason }));
+      solution.statistics.unservedCustomers = this.points.length;
+      return solution;
+    }
+
+    // first, create one route per point, served from the closest depot.
+    // deliveries start on the same route as their pickup
+    this.solutions = points
+      .filter(point => !point.pickup)
+      .map(point => {
+        const route = new Route(point, this.closestDepot(point));
+        if (point.delivery) {
+          route.points.push(point.delivery);
+        }
+        return route;
+      });
     // then calculate savings
     this.findAllRouteSavingsPairs(weights);
 
@@ -130,7 +515,7 @@ export class ClarkeWrightProblem {
 
       // routes may contain overlapping edges. Iron them out if option is enabled
       if (optimise) {
-        this.solutions.forEach(solution => solution.optimise());
+        this.solutions.forEach(solution => solution.optimise(this.twoOptOptions, points => this.isRouteFeasible(points), this.neighbours));
       }
 
       this.joinedRoutes = {}; // clear joined routes map
@@ -139,17 +524,196 @@ export class ClarkeWrightProblem {
       this.findAllRouteSavingsPairs(weights);
     }
 
+    // customers may be better off on another route. Move them if option is enabled
+    if (improve) {
+      solution.statistics.improvementSavings = improveRoutes(
+        this.solutions.filter(route => this.isRouteFeasible(route.points)), // outlier routes can't be improved
+        points => this.isRouteFeasible(points),
+        routes => this.countUnassigned(routes.filter(points => points.length > 1)), // emptied routes don't need a vehicle
+      );
+      this.solutions = this.solutions.filter(route => route.points.length > 1); // remove emptied routes
+    }
+
     // sort the routes by their demand served
-    return this.solutions
-      .filter(route => route.totalDistance() < this.maxDistance) // some routes might be too long for outlier points
-      .sort((a, b) => b.totalDemand() / b.totalDistance() - a.totalDemand() / a.totalDistance())
-      .map((route: Route) => ({
-        points: [
-          ...route.points.map(point => [point.x, point.y]),
-          [route.depot.x, route.depot.y]
-        ] as [number, number][],
-        distance: route.totalDistance(),
-      }));
+    const routes = this.solutions
+      .filter(route => {
+        // some routes might be too long, too heavy or too late for outlier points
+        const reason = this.findInfeasibleReason(route.points);
+        if (reason) {
+          solution.unservedCustomers.push(...this.unservedCustomers(route, reason));
+        }
+        return !reason;
+      })
+      .sort((a, b) => compareRoutes(a.points, b.points));
+
+    // better routes get first pick of the vehicles
+    const vehicles = this.assignVehicles(routes.map(route => route.points));
+    routes.forEach((route, index) => {
+      const vehicle = vehicles[index];
+      if (vehicle) {
+        solution.routes.push(this.toSolutionRoute(route, vehicle));
+      } else {
+        solution.uncoveredRoutes.push(this.toSolutionRoute(route));
+        solution.unservedCustomers.push(...this.unservedCustomers(route, 'no vehicle available'));
+      }
+    });
+
+    // summarise the solution
+    const statistics = solution.statistics;
+    statistics.unservedCustomers = solution.unservedCustomers.length;
+    statistics.servedCustomers = statistics.customers - statistics.unservedCustomers;
+    statistics.routes = solution.routes.length;
+    statistics.totalDistance = solution.routes.reduce((sum, route) => sum + route.distance, 0);
+    statistics.totalLoad = solution.routes.reduce((sum, route) => sum + route.load, 0);
+
+    return solution;
+  }
+
+  /**
+   * Finds why no vehicle can serve a route, if any
+   * @param points Route points, starting at the depot
+   */
+  private findInfeasibleReason(points: Point[]): UnservedReason | undefined {
+    const load = Math.max(...routeLoads(points));
+    if (!this.findVehicle(0, load, 0)) {
+      return 'over capacity';
+    }
+    if (!this.findVehicle(routeDistance(points), load, routeEnergy(points, this.energyModel))) {
+      return 'out of range';
+    }
+    if (!this.verifyTimeWindows(points)) {
+      return 'time window';
+    }
+    return undefined;
+  }
+
+  /**
+   * Determines whether any vehicle can serve a route, with each pickup
+   * before its delivery
+   * @param points Route points, starting at the depot
+   */
+  private isRouteFeasible(points: Point[]) {
+    return isInPairOrder(points) && typeof this.findInfeasibleReason(points) === 'undefined';
+  }
+
+  /**
+   * Lists the customers of a route as unserved for the given reason
+   * @param route
+   * @param reason
+   */
+  private unservedCustomers(route: Route, reason: UnservedReason): UnservedCustomer[] {
+    return route.points
+      .filter(point => point !== route.depot)
+      .map(point => ({ customer: point.customer, reason }));
+  }
+
+  /**
+   * Converts a route into the form returned by solve
+   * @param route
+   * @param vehicle The vehicle assigned to the route
+   */
+  private toSolutionRoute(route: Route, vehicle?: VehicleType): ClarkeWrightRoute {
+    const points = [
+      ...route.points.map(point => [point.x, point.y]),
+      [route.depot.x, route.depot.y]
+    ] as [number, number][];
+    const loads = route.loads();
+
+    return {
+      points,
+      path: this.pathThrough(points),
+      distance: route.totalDistance(),
+      load: route.totalDemand(),
+      loads: [...loads, loads[loads.length - 1]],
+      energy: routeEnergy(route.points, this.energyModel),
+      arrivals: this.speed ? route.arrivalTimes(this.speed) : undefined,
+      depot: this.depotLocations[this.depots.indexOf(route.depot)],
+      vehicle,
+    };
+  }
+
+  /**
+   * Positions travelled through when visiting points in order
+   * @param points
+   */
+  private pathThrough(points: Array<[number, number]>): Array<[number, number]> {
+    return points.reduce((path: Array<[number, number]>, point, index) => {
+      if (index === 0 || !this.costProvider.getPath) {
+        return [...path, point];
+      }
+      // routes with no way between two of their points are out of range, so are never returned
+      const leg = this.costProvider.getPath(points[index - 1], point);
+      return [...path, ...(leg ? leg.slice(1) : [point])];
+    }, []);
+  }
+
+  /**
+   * Capacity of a vehicle type, falling back to the problem capacity
+   * @param vehicle
+   */
+  private vehicleCapacity(vehicle: VehicleType): number {
+    return typeof vehicle.capacity === 'undefined' ? this.capacity : vehicle.capacity;
+  }
+
+  /**
+   * Energy of a vehicle type, falling back to the problem energy
+   * @param vehicle
+   */
+  private vehicleEnergy(vehicle: VehicleType): number {
+    return typeof vehicle.energy === 'undefined' ? this.energy : vehicle.energy;
+  }
+
+  /**
+   * Gives each route the smallest vehicle it fits that is still available
+   * @param routes Points of each route, starting at the depot, in the order the routes pick vehicles
+   * @returns The vehicle of each route, or undefined if none is left for it
+   */
+  private assignVehicles(routes: Point[][]): Array<VehicleType | undefined> {
+    // number of vehicles of each type that haven't been assigned a route yet
+    const available = this.fleet.map(vehicle => typeof vehicle.count === 'undefined' ? Infinity : vehicle.count);
+
+    return routes.map(points => {
+      const vehicle = this.findVehicle(routeDistance(points), Math.max(...routeLoads(points)), routeEnergy(points, this.energyModel), available);
+      if (vehicle) {
+        available[this.fleet.indexOf(vehicle)]--;
+      }
+      return vehicle;
+    });
+  }
+
+  /**
+   * Number of routes left without a vehicle when the fleet is shared between them
+   * @param routes Points of each route, starting at the depot
+   */
+  private countUnassigned(routes: Point[][]) {
+    return this.assignVehicles(routes.slice().sort(compareRoutes)).filter(vehicle => !vehicle).length;
+  }
+
+  /**
+   * Finds the smallest vehicle type that can travel the given distance,
+   * carry the given load and has the energy for the route
+   * @param distance Route distance
+   * @param load Most load on board at once
+   * @param energy Energy used by the route
+   * @param available Number of vehicles of each type still available. Ignored if not set
+   */
+  private findVehicle(distance: number, load: number, energy: number, available?: number[]): VehicleType | undefined {
+    return this.fleet.find((vehicle, index) =>
+      distance < vehicle.maxDistance &&
+      load <= this.vehicleCapacity(vehicle) &&
+      energy <= this.vehicleEnergy(vehicle) &&
+      (!available || available[index] > 0)
+    );
+  }
+
+  /**
+   * Finds the depot closest to the given point
+   * @param point
+   */
+  private closestDepot(point: Point): Point {
+    return this.depots.reduce((closest, depot) =>
+      point.getDistanceTo(depot) < point.getDistanceTo(closest) ? depot : closest
+    );
   }
 
   /**
@@ -202,8 +766,9 @@ export class ClarkeWrightProblem {
     const customerA = routeA.getEnd();
     const customerB = routeB.getStart();
 
-    const distDA = this.depot.getDistanceTo(customerA); // depot to A
-    const distDB = this.depot.getDistanceTo(customerB); // depot to B
+    const depot = routeA.depot;
+    const distDA = customerA.getDistanceTo(depot); // A back to depot
+    const distDB = depot.getDistanceTo(customerB); // depot to B
 
     const distAB = customerA.getDistanceTo(customerB); // A to B
 
@@ -213,7 +778,7 @@ export class ClarkeWrightProblem {
 
     // asymmetry measure = distance between two customers vs their angle through the depot
     const savingsAsymmetry = weights.asymmetry * (
-        this.angle(customerA, this.depot, customerB) *
+        this.angle(customerA, depot, customerB) *
         Math.abs(this.maxPointDistance - (distDA - distDB) / 2)
       ) / this.maxPointDistance;
 
@@ -231,7 +796,7 @@ export class ClarkeWrightProblem {
   private joinRoutes(routeA: Route, routeB: Route): boolean {
     if (!this.verifyRouteJoin(routeA, routeB)) {
       // if the routes can't be joined because they would exceed the maximum
-      // distance, return
+      // distance or the vehicle capacity, return
       return false;
     }
 
@@ -248,19 +813,48 @@ export class ClarkeWrightProblem {
   }
 
   /**
-   * Determines whether the total length of the route would
-   * exceed the maximum distance that can be travelled
+   * Determines whether any vehicle in the fleet could serve the
+   * joined route without exceeding its maximum distance or capacity,
+   * or making a customer late.
+   * If the number of vehicles is limited, joining must not leave more
+   * routes without a vehicle, such as when only a few vehicles can serve
+   * long routes.
+   * Routes from different depots can never be joined
    * @param routeA
    * @param routeB
    */
   private verifyRouteJoin(routeA: Route, routeB: Route) {
-    const distance = routeA.totalDistance() - // total of A
-      routeA.getEnd().getDistanceTo(this.depot) + // minus end of A to depot
-      routeA.getEnd().getDistanceTo(routeB.getStart()) + // end of A and start of B
-      routeB.totalDistance() - // total of B
-      routeB.getStart().getDistanceTo(this.depot); // minus depot to start of B
+    if (routeA.depot !== routeB.depot) {
+      return false;
+    }
+
+    const joined = [...routeA.points, ...routeB.points.slice(1)];
+    if (!this.isRouteFeasible(joined)) {
+      return false;
+    }
+    if (this.fleet.every(vehicle => typeof vehicle.count === 'undefined')) {
+      return true;
+    }
 
-    return distance < this.maxDistance;
+    const others = this.solutions
+      .filter(route => route !== routeA && route !== routeB)
+      .map(route => route.points);
+    return this.countUnassigned([...others, joined]) <= this.countUnassigned([...others, routeA.points, routeB.points]);
+  }
+
+  /**
+   * Determines whether every point on a route (starting at the depot)
+   * can be served within its time window. Always true if no vehicle
+   * speed is set.
+   * @param points
+   */
+  private verifyTimeWindows(points: Point[]) {
+    if (!this.speed) {
+      return true;
+    }
+
+    const arrivals = arrivalTimes(points, this.speed);
+    return points.every((point, index) => arrivals[index] <= point.latest);
   }
 
   /**
@@ -279,185 +873,28 @@ export class ClarkeWrightProblem {
 }
 
 /**
- * A Clarke Wright algorithm point
+ * Compare functions for each of the named objectives
  */
-class Point {
-  x: number;
-  y: number;
-  demand: number;
-  private distances = new WeakMap<Point, number>();
-
-  /**
-   * Instantiates a point
-   * @param x The x position of the point
-   * @param y The y position of the point
-   * @param demand The demand/priority of the point - higher means more demand
-   */
-  constructor(x: number, y: number, demand: number) {
-    this.x = x;
-    this.y = y;
-    this.demand = demand;
-  }
-
-  /**
-   * Converts a customer interface into a point
-   * @param json 
-   */
-  public static fromCustomer(customer: Customer) {
-    return new Point(customer.lon, customer.lat, customer.demand);
-  }
-
-  /**
-   * Calculates the euclidean distance between two points
-   * @param point
-   */
-  getDistanceTo(point: Point): number {
-    const distance = this.distances.get(point);
-    if (typeof distance === 'undefined') {
-      return Infinity;
-    }
-
-    return distance;
-  }
-
-  setDistanceTo(point: Point, distance: number) {
-    this.distances.set(point, distance);
-  }
-}
+const objectives: { [objective: string]: (a: ClarkeWrightSolution, b: ClarkeWrightSolution) => number } = {
+  served: (a, b) =>
+    b.statistics.servedCustomers - a.statistics.servedCustomers ||
+    a.statistics.totalDistance - b.statistics.totalDistance,
+  distance: (a, b) =>
+    a.statistics.totalDistance - b.statistics.totalDistance ||
+    b.statistics.servedCustomers - a.statistics.servedCustomers,
+  routes: (a, b) =>
+    a.statistics.routes - b.statistics.routes ||
+    b.statistics.servedCustomers - a.statistics.servedCustomers ||
+    a.statistics.totalDistance - b.statistics.totalDistance,
+};
 
 /**
- * Clarke Wright route
+ * Orders routes so that those serving the most demand per distance come first
+ * @param a Points of a route, starting at the depot
+ * @param b Points of a route, starting at the depot
  */
-class Route {
-  static id = 0;
-  points: Point[]; // list of points excluding the depot
-  depot: Point; // the depot
-
-  id: number;
-
-  constructor(a: Point, depot: Point) {
-    this.points = [depot, a];
-    this.depot = depot;
-    this.id = Route.id++;
-  }
-
-  /**
-   * Returns the start point of the route (after the depot)
-   */
-  public getStart(): Point {
-    return this.points[1];
-  }
-
-  /**
-   * Returns the end point of the route (before the depot)
-   */
-  public getEnd(): Point {
-    return this.points[this.points.length - 1];
-  }
-
-  /**
-   * Appends the points of the given route to this route (excluding
-   * the depot)
-   * @param route 
-   */
-  public joinRoute(route: Route) {
-    this.points.push(...route.points.slice(1));
-  }
-
-  /**
-   * Cost from the depot through the points and back to the depot
-   */
-  public totalDistance(): number {
-    let prev = this.points[0];
-    let cost = 0;
-
-    this.points.forEach(point => {
-      if (point === prev) return;
-      cost += prev.getDistanceTo(point);
-      prev = point;
-    });
-
-    cost += prev.getDistanceTo(this.depot);
-
-    return cost;
-  }
-
-  /**
-   * Total demand of all the points
-   */
-  public totalDemand() {
-    return this.points.reduce((sum, point) => sum + (point === this.depot ? 0 : point.demand), 0);
-  }
-
-  /**
-   * Attempts to optimise the route using local search.
-   * Runs until no further improvements are made.
-   * @param iterations The number of times to re-run
-   */
-  public optimise(maxIter = 100) {
-    let bestDistance = 0;
-    for (let i = 0; i < maxIter; i++) {
-      const distance = this.twoOpt();
-      if (distance === bestDistance) {
-        break;
-      }
-      bestDistance = distance;
-    }
-  }
-
-  /**
-   * Two-opt implementation. Swaps points if the distances
-   * would be improved. Usually gets rid of most intersecting edges.
-   * This is exhaustive.
-   * 
-   * This implementation takes a circuit and reverses the part between the
-   * given edges rather than actually swapping the edges. This has the same
-   * effect.
-   * 
-   * A ---   --- B            A --------> B
-   * ^    \ /    ^            ^           |
-   * |    / \    |  becomes   |           v
-   * D <--   --> C            D <-------- C
-   * 
-   * A->C->B->D->A            A->B->C->D->A
-   * 
-   * Returns the total distance so we can compare with best distance.
-   */
-  private twoOpt() {
-    for (let i = 0; i < this.points.length - 2; i++) {
-      for (var j = i + 2; j < this.points.length - 1; j++) {
-        if (j - i === 1) continue;
-        if (
-          this.points[i].getDistanceTo(this.points[i + 1]) + this.points[j].getDistanceTo(this.points[j + 1])
-          > this.points[i].getDistanceTo(this.points[j]) + this.points[j + 1].getDistanceTo(this.points[i + 1])
-        ) {
-          this.twoOptSwap(i, j);
-          return this.totalDistance();
-        }
-      }
-
-      // test last point back to first point
-      if (
-        this.points[i].getDistanceTo(this.points[i + 1]) + this.points[j].getDistanceTo(this.points[0])
-        > this.points[i].getDistanceTo(this.points[j]) + this.points[0].getDistanceTo(this.points[i + 1])
-      ) {
-        this.twoOptSwap(i, j);
-        return this.totalDistance();
-      }
-    }
-    return this.totalDistance();
-  }
-
-  /**
-   * Swap function for two-opt
-   */
-  private twoOptSwap(i: number, k: number) {
-    this.points = [
-      ...this.points.slice(0, i + 1),
-      ...this.points.slice(i + 1, k + 1).reverse(),
-      ...this.points.slice(k + 1),
-    ];
-  }
+function compareRoutes(a: Point[], b: Point[]) {
+  return routeDemand(b) / routeDistance(b) - routeDemand(a) / routeDistance(a);
 }
 
 /**
@@ -468,4 +905,3 @@ interface Savings {
   routeA: Route;
   routeB: Route;
 }
-
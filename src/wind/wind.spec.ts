@@ -0,0 +1,39 @@
+import { ConstantWind, groundSpeed, trackBetween } from './wind';
+
+describe('ConstantWind', () => {
+  it('blows away from the bearing it comes from', () => {
+    const [east, north] = ConstantWind.fromBearing(2, 0).getWind();
+
+    expect(east).toBeCloseTo(0);
+    expect(north).toBeCloseTo(-2);
+  });
+});
+
+describe('groundSpeed', () => {
+  it('adds a tailwind and takes away a headwind', () => {
+    expect(groundSpeed(10, [2, 0], [1, 0])).toBeCloseTo(12);
+    expect(groundSpeed(10, [-2, 0], [1, 0])).toBeCloseTo(8);
+  });
+
+  it('heads into a crosswind to hold the track', () => {
+    expect(groundSpeed(5, [0, 3], [1, 0])).toBeCloseTo(4);
+  });
+
+  it('makes no progress in wind stronger than the vehicle', () => {
+    expect(groundSpeed(5, [0, 6], [1, 0])).toBe(0);
+    expect(groundSpeed(5, [-6, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe('trackBetween', () => {
+  it('points along the great circle between the positions', () => {
+    const east = trackBetween([0, 0], [1, 0]);
+    const north = trackBetween([0, 0], [0, 1]);
+
+    expect(east[0]).toBeCloseTo(1);
+    expect(east[1]).toBeCloseTo(0);
+    expect(north[0]).toBeCloseTo(0);
+    expect(north[1]).toBeCloseTo(1);
+    expect(trackBetween([0, 0], [0, 0])).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Wind velocity over an area, possibly changing over time
+ */
+export interface WindField {
+  /**
+   * Wind velocity [east, north] in units per second, i.e. the direction
+   * the wind blows towards
+   * @param position [lon, lat]
+   * @param time Time in seconds from the start of planning. Not known for all uses
+   */
+  getWind(position: [number, number], time?: number): [number, number];
+}
+
+/**
+ * The same wind everywhere, at all times
+ */
+export class ConstantWind implements WindField {
+  /**
+   * @param east Wind velocity towards the east in units per second
+   * @param north Wind velocity towards the north in units per second
+   */
+  constructor(private east: number, private north: number) {}
+
+  /**
+   * Creates a wind from a speed and the direction it blows from, as given in
+   * weather reports
+   * @param speed Wind speed in units per second
+   * @param fromBearing Direction the wind blows from, in degrees clockwise from north
+   */
+  static fromBearing(speed: number, fromBearing: number) {
+    const towards = (fromBearing + 180) * Math.PI / 180;
+    return new ConstantWind(speed * Math.sin(towards), speed * Math.cos(towards));
+  }
+
+  getWind(): [number, number] {
+    return [this.east, this.north];
+  }
+}
+
+/**
+ * Speed over the ground of a vehicle holding a track through wind. The
+ * vehicle heads partly into any crosswind so that it stays on its track.
+ * @param airSpeed Vehicle speed through the air
+ * @param wind Wind velocity [east, north], in the same units as the air speed
+ * @param track Unit vector [east, north] of the direction of travel
+ * @returns Ground speed, or 0 if the wind is too strong to hold the track
+ */
+export function groundSpeed(airSpeed: number, wind: [number, number], track: [number, number]) {
+  const tailwind = wind[0] * track[0] + wind[1] * track[1];
+  const crosswindSquared = wind[0] * wind[0] + wind[1] * wind[1] - tailwind * tailwind;
+  if (crosswindSquared > airSpeed * airSpeed) {
+    return 0;
+  }
+
+  return Math.max(0, tailwind + Math.sqrt(airSpeed * airSpeed - crosswindSquared));
+}
+
+/**
+ * Unit vector [east, north] of the initial great circle direction between two positions
+ * @param from [lon, lat]
+ * @param to [lon, lat]
+ */
+export function trackBetween(from: [number, number], to: [number, number]): [number, number] {
+  const lat1 = from[1] * Math.PI / 180;
+  const lat2 = to[1] * Math.PI / 180;
+  const deltaLon = (to[0] - from[0]) * Math.PI / 180;
+
+  const east = Math.sin(deltaLon) * Math.cos(lat2);
+  const north = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon);
+  const length = Math.sqrt(east * east + north * north);
+  return length === 0 ? [0, 0] : [east / length, north / length];
+}
\ No newline at end of file